@@ -1,56 +1,132 @@
 // =============================================================================
 // SpanishVIP Teacher Screening Bot — Cloudflare Worker
 // =============================================================================
-// Flow: /start <applicant_token> → 8 inline-keyboard questions → PASS/FAIL
-// Results are POSTed to Make.com. PASS candidates are handed to Maria Camila.
+// Flow: /start <applicant_token> → screening questions → review → PASS/FAIL
+// Questions and fail rules come from a versioned flow definition in KV
+// (falling back to the built-in DEFAULT_FLOW; earlier built-ins stay frozen).
+// Results are POSTed to Make.com. PASS candidates are handed to Maria Camila
+// (or their campaign's handoff contact).
 // =============================================================================
 
+import { DurableObject } from "cloudflare:workers";
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
 interface Env {
   BOT_TOKEN: string;
-  BOT_KV: KVNamespace;
+  BOT_KV: BotKV;
+  CHAT_SESSIONS?: DurableObjectNamespace<ChatSession>; // falls back to KV sessions when unbound
+  INTERVIEW_CALENDAR?: DurableObjectNamespace<InterviewCalendar>; // in-chat scheduling is off when unbound
+  FUNNEL_METRICS?: DurableObjectNamespace<FunnelMetrics>; // funnel counters for /admin/metrics; off when unbound
+  RECRUITER_POOL?: DurableObjectNamespace<RecruiterPool>; // PASS handoff goes to the campaign / Maria contact when unbound
+  INTERVIEW_TIMEZONE?: string; // IANA timezone for slot display when the applicant has none
   MAKE_WEBHOOK_URL: string;
-  MARIA_WA_ME_LINK?: string;
-  MIN_WEEKLY_HOURS?: string; // optional string env var; defaults to "15"
-}
-
-type Step =
-  | "q1_team_role"
-  | "q2_weekly_hours"
-  | "q3_start_date"
-  | "q4_setup"
-  | "q5_sop"
-  | "q6_english"
-  | "q7_age"
-  | "q8_student_types"
-  | "completed";
-
-interface Answers {
-  team_role?: string;
-  weekly_availability?: string;
-  start_date?: string;
-  setup?: string;
-  sop?: string;
-  english_level?: string;
-  age?: number;
-  student_types?: string;
+  MARIA_WA_ME_LINK?: string; // campaigns may set their own handoff contact
+  MIN_WEEKLY_HOURS?: string; // optional string env var; defaults to "15"; campaigns may override it
+  TELEGRAM_WEBHOOK_SECRET: string; // must match the secret_token passed to setWebhook
+  START_LINK_SECRET?: string; // HMAC key for signed start links; signed links are rejected when unset
+  REQUIRE_SIGNED_LINKS?: string; // "true" to reject raw applicant tokens in /start
+  BOT_USERNAME?: string; // used to build t.me links for minted start payloads
+  STAFF_CHAT_ID?: string; // private staff group that receives candidate cards; cards are off when unset
+  SUPPORT_CHAT_ID?: string; // forum supergroup where staff answer candidates, one topic each; off when unset
+  NOTIFY_CANDIDATE_ON_DECISION?: string; // "true" to message the candidate when a recruiter acts on a card
+  REMINDER_AFTER_HOURS?: string; // comma-separated idle hours before each reminder; defaults to "24,72"
+  ABANDON_AFTER_HOURS?: string; // idle hours before reporting "abandoned"; defaults to "144"
+  RETAKE_COOLDOWN_DAYS?: string; // days before a failed candidate may screen again; defaults to "90"
+  ONE_TOKEN_PER_ACCOUNT?: string; // "true" to stop a Telegram account from screening under a second applicant token
+  PRIVACY_POLICY_URL?: string; // asks for consent before the first question when set
+  DATA_RETENTION_DAYS?: string; // days stored applicant data is kept before the daily purge; kept indefinitely when unset
+  ADMIN_TOKEN?: string; // bearer token for /admin/* and /applicants; those endpoints are disabled when unset
+  SIMULATION?: SimulationCapture; // set only on the copied env of a /admin/simulate run, never configured
+}
+
+// The KVNamespace calls this worker makes, so /admin/simulate can pass an
+// in-memory fake
+interface BotKV {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: KVNamespacePutOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  list<Metadata = unknown>(options?: KVNamespaceListOptions): Promise<KVNamespaceListResult<Metadata>>;
+}
+
+// The part of ExecutionContext the handlers use (background work)
+type BackgroundTasks = Pick<ExecutionContext, "waitUntil">;
+
+// Step ids come from the flow definition (e.g. "q1_team_role"); COMPLETED_STEP,
+// REVIEW_STEP and CONSENT_STEP are reserved by the worker itself.
+type StepId = string;
+
+// Canonical answers keyed by each question's answer_key. The shape depends on
+// the question's input type: "choice" → option value, "multi_select" → option
+// values, "number" → number, "text" / "email" → string, "contact" → ContactAnswer,
+// "media" → MediaAnswer.
+type AnswerValue = string | number | string[] | ContactAnswer | MediaAnswer;
+type Answers = Record<string, AnswerValue>;
+
+interface ContactAnswer {
+  phone_number: string; // as shared by Telegram, always with a leading "+"
+  telegram_user_id: number; // only the candidate's own contact is accepted
+}
+
+type MediaKind = "voice" | "video_note" | "video";
+
+// A recorded sample. file_id can be passed to the Bot API's getFile (or
+// re-sent with sendVoice / sendVideoNote / sendVideo) by this bot only.
+interface MediaAnswer {
+  kind: MediaKind;
+  file_id: string;
+  file_unique_id: string; // stable across bots; use it to dedupe
+  duration_seconds: number;
 }
 
 interface SessionState {
   applicant_token: string;
-  step: Step;
+  flow_version?: string; // missing on sessions created before flows were versioned
+  step: StepId;
   answers: Answers;
   started_at: string; // ISO-8601
+  last_activity_at?: string; // ISO-8601 — last recorded answer (or resume)
+  reminders_sent?: number;
+  question_message_id?: number; // message holding the active keyboard (question, review or edit menu)
+  editing?: boolean; // re-answering a question picked from the review screen
+  selection?: string[]; // option values ticked so far on a "multi_select" question
+  reply_keyboard?: boolean; // the active message carries a reply keyboard (contact request)
   telegram_username?: string;
+  campaign?: string; // campaign id from the start link or applicant record
+  consent_at?: string; // ISO-8601 — privacy policy accepted; carried over a /restart
+  furthest_step?: number; // highest question index reached (questions.length = review), for funnel metrics
+  events?: SessionEvent[]; // append-only log, carried over a /restart
+}
+
+type SessionEventType =
+  | "started"
+  | "restarted"
+  | "shown" // question, review screen
+  | "answered"
+  | "confirmed"
+  | "back"
+  | "invalid" // typed input the step rejected
+  | "rate_limited"
+  | "reminded"
+  | "resumed";
+
+interface SessionEvent {
+  at: number; // epoch ms
+  type: SessionEventType;
+  step?: StepId;
 }
 
 interface RateLimitState {
   timestamps: number[]; // epoch ms of recent actions
 }
 
+interface ProcessedUpdate {
+  id: number; // Telegram update_id
+  at: number; // epoch ms when it was claimed
+}
+
 // Telegram API — minimal types, no external SDK required
 interface TelegramUser {
   id: number;
@@ -60,9 +136,33 @@ interface TelegramUser {
 
 interface TelegramMessage {
   message_id: number;
+  message_thread_id?: number; // forum topic, in supergroups with topics enabled
   from?: TelegramUser;
-  chat: { id: number };
+  chat: { id: number; type?: string };
   text?: string;
+  caption?: string;
+  contact?: TelegramContact;
+  voice?: TelegramMedia;
+  video_note?: TelegramMedia;
+  video?: TelegramMedia;
+  // Only checked for presence, to tell content from service messages
+  photo?: unknown[];
+  document?: unknown;
+  audio?: unknown;
+  sticker?: unknown;
+}
+
+// Common fields of Voice, VideoNote and Video
+interface TelegramMedia {
+  file_id: string;
+  file_unique_id: string;
+  duration: number; // seconds
+}
+
+interface TelegramContact {
+  phone_number: string;
+  first_name: string;
+  user_id?: number; // set when the contact is a Telegram user
 }
 
 interface TelegramCallbackQuery {
@@ -72,6 +172,39 @@ interface TelegramCallbackQuery {
   data?: string;
 }
 
+// Bot API response envelope
+interface TelegramReply {
+  ok: boolean;
+  result?: unknown;
+  error_code?: number;
+  description?: string;
+  parameters?: { retry_after?: number };
+}
+
+// A failed Bot API call, as logged and returned by callTelegram
+interface TelegramError {
+  method: string;
+  chat_id?: number | string;
+  status: number; // Telegram's error_code (the HTTP status); 0 when the request never got a response
+  description: string;
+  retry_after?: number; // seconds, on a 429
+  queued?: boolean; // a 429 too long to wait out: the call was handed to the retry queue
+}
+
+type TelegramResult = { ok: true; result: unknown } | { ok: false; error: TelegramError };
+
+// What sendMessage returns: the new message's id, or why it wasn't sent
+type SentMessage = { ok: true; message_id: number } | { ok: false; error: TelegramError };
+
+// A Bot API call held back by a long 429, stored under
+// tg-retry:<queued at, epoch ms>:<uuid> so the cron sends them in order
+interface TelegramRetry {
+  method: string;
+  body: Record<string, unknown>;
+  attempts: number;
+  next_attempt_at: number; // epoch ms
+}
+
 interface TelegramUpdate {
   update_id: number;
   message?: TelegramMessage;
@@ -82,166 +215,1112 @@ interface ResultPayload {
   applicant_token: string;
   telegram_chat_id: number;
   telegram_username?: string;
-  result: "pass" | "fail";
+  result: OutcomeTier | IncompleteResult;
   reason: string;
-  answers: Answers;
+  answers: Answers; // partial for incomplete results
+  last_step?: StepId; // step an incomplete screening stopped at
+  failed_step?: StepId; // question whose fail rule failed the candidate (unset for a low score)
+  started_at?: string; // ISO-8601 — first /start, before any /restart
+  timeline?: TimelineEntry[];
+  question_seconds?: Record<StepId, number>; // time each step was on screen until answered or left
+  completion_seconds?: number; // started_at → completed_at
+  // Set when this Telegram account has screened before
+  previous_result?: OutcomeTier; // its most recent earlier result
+  duplicate_of?: string; // applicant_token of its most recent screening under a different token
+  score?: number; // total points (partial for knock-outs and incomplete screenings)
+  score_breakdown?: Record<string, number>; // points per answer_key
+  flow_version: string;
+  idempotency_key: string; // stable across retries so Make can dedupe
+  completed_at: string; // ISO-8601
+  // Intake fields from the applicant record
+  first_name?: string;
+  email?: string;
+  phone?: string;
+  campaign?: string;
+  consent_at?: string; // ISO-8601 — when the privacy policy was accepted (PRIVACY_POLICY_URL)
+  recruiter?: RecruiterHandoff; // interview tiers, when the recruiter pool assigned one
+  // Set on follow-up payloads sent after the candidate books an interview
+  update?: "interview_booked" | "interview_rescheduled" | "interview_cancelled";
+  interview?: InterviewBooking;
+}
+
+// A screening closed before the candidate finished: idle past the deadline,
+// the candidate blocked the bot, or they refused the privacy policy
+type IncompleteResult = "abandoned" | "blocked" | "declined_consent";
+
+// Sent to Make (through the outbox) when a candidate deletes their data with
+// /borrar_datos, so the copies in Make and the Sheet can be removed too
+interface DeletionNotice {
+  event: "data_deleted";
+  telegram_chat_id: number;
+  applicant_tokens: string[];
+  result_ids: string[]; // idempotency_key of each deleted result Make may hold
+  idempotency_key: string;
+  deleted_at: string; // ISO-8601
+}
+
+type MakePayload = ResultPayload | DeletionNotice;
+
+// Compact session event sent to Make
+interface TimelineEntry {
+  t: number; // seconds since the payload's started_at
+  event: SessionEventType;
+  step?: StepId;
+}
+
+interface RecruiterHandoff {
+  id: string;
+  name: string;
+  link: string;
+  replies_from: string; // ISO-8601 — the assignment time, or the start of their next shift
+}
+
+interface InterviewBooking {
+  slot_id: string;
+  starts_at: string; // ISO-8601 UTC
+  duration_minutes: number;
+  timezone: string; // IANA timezone the slot was shown in
+  status: "booked" | "cancelled";
+}
+
+type SignedStartResult =
+  | { ok: true; token: string; campaign?: string; expires_at: number }
+  | { ok: false; error: "invalid" | "expired" };
+
+// Intake record created by Make via POST /applicants (stored under applicant:<token>)
+interface ApplicantRecord {
+  applicant_token: string;
+  first_name: string;
+  email?: string;
+  phone?: string;
+  campaign?: string;
+  timezone?: string; // IANA timezone, used to display interview slots
+  status: "pending" | "in_progress" | "completed";
+  chat_id?: number; // bound to the first chat that uses the token
+  created_at: string; // ISO-8601
+  started_at?: string; // ISO-8601
+  completed_at?: string; // ISO-8601
+  result?: OutcomeTier; // of the latest completed screening
+  recruiter_decision?: RecruiterDecision;
+}
+
+// Settings for one hiring campaign — stored in KV as JSON under
+// `campaign:<id>`. Every field is optional and falls back to the global
+// setting; a campaign without a record only labels results and metrics.
+interface CampaignConfig {
+  id: string;
+  flow_version?: string; // flow new sessions start on instead of the one flow:active points at
+  min_weekly_hours?: number; // replaces MIN_WEEKLY_HOURS
+  intro_text?: string; // HTML greeting sent before the first question; {first_name} is replaced
+  handoff_name?: string; // person interview-tier candidates are sent to; defaults to Maria Camila
+  handoff_wa_me_link?: string; // their WhatsApp link; replaces MARIA_WA_ME_LINK
+}
+
+// A recruiter interview-tier candidates are handed to (stored in RecruiterPool)
+interface Recruiter {
+  id: string;
+  name: string;
+  link: string; // wa.me or t.me link shown to the candidate
+  weekly_capacity: number; // most candidates assigned in any 7 days
+  timezone: string; // IANA timezone of the working hours
+  work_days: number[]; // ISO weekdays, 1 = Monday … 7 = Sunday
+  work_start: string; // "HH:MM", local
+  work_end: string; // "HH:MM", local, after work_start
+  active: boolean;
+  campaigns?: string[]; // only takes candidates from these campaigns; every campaign when unset
+}
+
+// As listed by /admin/recruiters
+interface RecruiterStatus extends Recruiter {
+  assigned_last_7_days: number;
+  last_assigned_at: string | null; // ISO-8601
+  on_shift: boolean;
+}
+
+// Who an interview-tier candidate is told to contact
+interface HandoffContact {
+  name: string;
+  link?: string;
+  recruiter_id?: string; // set when assigned from the recruiter pool
+  replies_from?: number; // epoch ms — later than now when the recruiter is off shift
+}
+
+// A message Make can send an applicant through POST /notify. Built-in
+// templates are in NOTIFY_TEMPLATES; KV `template:<name>` adds or replaces one.
+interface NotifyTemplate {
+  text: string; // HTML; {variable} placeholders are replaced with the request's escaped variables
+  buttons?: NotifyButton[]; // one URL button per row
+}
+
+interface NotifyButton {
+  text: string;
+  url: string; // https only; placeholders are replaced (URL-encoded)
+}
+
+type NotifyStatus = "sent" | "queued" | "blocked" | "unknown_token" | "not_started" | "failed";
+
+// A candidate's conversation with staff, held in a forum topic of
+// SUPPORT_CHAT_ID (stored under support:<chatId>; support-topic:<thread id>
+// maps the topic back to the chat)
+interface SupportThread {
+  chat_id: number;
+  thread_id: number; // message_thread_id of the topic
+  opened_at: string; // ISO-8601
+  paused?: boolean; // /pausar — every candidate message goes to staff and the bot stays quiet
+}
+
+// One completed screening in a Telegram account's history (stored as an
+// array under screenings:<chatId>)
+interface ScreeningRecord {
+  applicant_token: string;
+  result: OutcomeTier;
   completed_at: string; // ISO-8601
+  result_id?: string; // the payload's idempotency_key; missing on records from before /borrar_datos
+}
+
+// Retake settings, resolved from env for retakeBlockMessage
+interface RetakeRules {
+  one_token_per_account: boolean;
+  cooldown_days: number;
+  timezone: string; // IANA, for the date in the cooldown message
+}
+
+type RecruiterAction = "contact" | "schedule" | "reject";
+
+interface RecruiterDecision {
+  action: RecruiterAction;
+  by: string; // recruiter's @username or first name
+  at: string; // ISO-8601
+}
+
+// Interview slot held by the InterviewCalendar Durable Object
+interface InterviewSlot {
+  id: string;
+  starts_at: string; // ISO-8601 UTC
+  duration_minutes: number;
+  booking?: SlotBooking;
+}
+
+interface SlotBooking {
+  applicant_token: string;
+  chat_id: number;
+  first_name?: string;
+  booked_at: string; // ISO-8601
+}
+
+type BookingResult =
+  | { ok: true; slot: InterviewSlot; previous?: InterviewSlot }
+  | { ok: false; reason: "not_found" | "taken" | "past" };
+
+// What the bot remembers about a PASS candidate so they can book, reschedule
+// or cancel after the session is gone (stored under interview:<chatId>)
+interface InterviewContext {
+  applicant_token: string;
+  first_name?: string;
+  timezone: string;
+  payload: ResultPayload; // the screening result, re-sent to Make with each interview update
+  slot_id?: string;
+}
+
+// Counter increments for one day and campaign, recorded by FunnelMetrics
+interface MetricsEvent {
+  day: string; // YYYY-MM-DD (UTC)
+  campaign: string; // "" when the applicant has none
+  counters: string[]; // e.g. "started", "reached:q2_weekly_hours", "answer:age=28"
+  completion_seconds?: number; // /start to result, for the median
+}
+
+interface MetricsBucket {
+  day: string;
+  campaign: string;
+  counters: Record<string, number>;
+  completion_seconds: number[];
+}
+
+// Funnel numbers for one bucket (or the totals) as returned by /admin/metrics
+interface FunnelSummary {
+  started: number;
+  reached: Record<string, number>; // sessions that got to each step (incl. "review")
+  answers: Record<string, Record<string, number>>; // answer_key → value → count
+  results: Record<string, number>; // per tier, plus the incomplete results
+  fail_reasons: Record<string, number>; // step whose fail rule failed the candidate; "score" for a low score
+  abandoned_at: Record<string, number>; // step an abandoned session stopped at
+  completed: number; // results other than the incomplete ones
+  pass_rate: number | null; // strong_pass + pass over completed
+  median_completion_seconds: number | null;
+}
+
+// Candidate card posted to the staff group (stored under card:<id>)
+interface CandidateCard {
+  id: string; // same as payload.idempotency_key
+  payload: ResultPayload;
+  flow_version: string;
+  started_at: string; // ISO-8601
+  telegram_first_name: string;
+  staff_message_id?: number;
+  decision?: RecruiterDecision;
+}
+
+// A result waiting to be delivered to Make.com (stored under outbox:<id>,
+// or dead-letter:<id> once retries are exhausted)
+interface OutboxEntry {
+  id: string; // same as payload.idempotency_key
+  payload: MakePayload;
+  attempts: number;
+  next_attempt_at: number; // epoch ms
+  created_at: string; // ISO-8601
+  last_error?: string;
+}
+
+interface OutboxMetadata {
+  next_attempt_at: number;
+}
+
+// A retention purge that didn't fit in one cron invocation (stored under
+// purge:progress; the outbox cron continues it)
+interface PurgeProgress {
+  cutoff: number; // epoch ms, fixed for the whole pass
+  stage: number; // index into PURGE_STAGES
+  cursor?: string; // KV list cursor within the stage
+}
+
+// An idle sweep that didn't fit in one cron invocation (stored under
+// idle-sweep:progress; the outbox cron continues it)
+interface IdleSweepProgress {
+  cursor: string; // KV list cursor over the active:<chatId> keys
+}
+
+// Kept with each stored result (result:<recorded_at>:<id>) so listings can be
+// filtered without reading the payloads
+interface StoredResultMetadata {
+  chat_id: number;
+  applicant_token: string;
+  result: ResultPayload["result"];
+  campaign?: string;
+}
+
+// What a /admin/simulate run would have sent: Bot API calls (method plus
+// request body) and the results that would have been POSTed to Make
+interface SimulationCapture {
+  calls: SimulatedCall[];
+  results: MakePayload[];
+  next_message_id: number;
+}
+
+interface SimulatedCall {
+  method: string;
+  message_id?: number; // the id a send* call would have returned
+  [field: string]: unknown;
+}
+
+interface SimulationStep {
+  input: SimulationInput;
+  as: "message" | "button";
+  calls: SimulatedCall[]; // what the bot sent in response
+  error?: string; // a handler threw
+}
+
+// One scripted input: a string is a button press when a keyboard currently
+// shown in the chat has that callback data, otherwise a text message
+type SimulationInput =
+  | string
+  | { text: string }
+  | { button: string; message_id?: number }
+  | { contact: string } // phone number, shared as the candidate's own contact
+  | { voice: number } // duration in seconds
+  | { video_note: number }
+  | { video: number };
+
+// Screening flow definition — stored in KV as JSON under `flow:<version>`.
+// A published version must never be edited in place: sessions pin the version
+// they started on, so changes are shipped as a new version and activated by
+// pointing `flow:active` at it.
+interface FlowDefinition {
+  version: string;
+  questions: FlowQuestion[];
+  scoring?: FlowScoring; // without it, every candidate who clears the fail rules is "pass"
+}
+
+type OutcomeTier = "strong_pass" | "pass" | "manual_review" | "fail";
+
+// Points from each answer are summed at confirmation; the candidate gets the
+// first tier (highest min_score first) whose min_score the total reaches.
+interface FlowScoring {
+  tiers: ScoreTier[];
 }
 
-interface QuestionButton {
+interface ScoreTier {
+  id: OutcomeTier;
+  min_score: number;
+  message?: string; // candidate-facing message; defaults to TIER_DEFAULTS
+}
+
+type FlowInputType = "choice" | "multi_select" | "number" | "text" | "email" | "contact" | "media";
+
+interface FlowQuestion {
+  id: StepId;
+  answer_key: string;
   text: string;
-  data: string; // callback_data value sent back when pressed
+  summary_label?: string; // short label for the review screen and candidate card; defaults to answer_key
+  input: FlowInputType;
+  options?: FlowOption[]; // required for "choice" and "multi_select", one button per row
+  validation?: FlowValidation; // required for "number" and "text"; optional for "multi_select", "email" and "media"
+  media_kinds?: MediaKind[]; // "media" only; defaults to voice notes and video notes
+  points_ranges?: PointsRange[]; // scoring for "number" answers; first matching range wins
+  fail_rules?: FailRule[];
+}
+
+interface PointsRange {
+  min?: number; // inclusive
+  max?: number; // inclusive
+  points: number;
 }
 
-interface Question {
-  key: keyof Answers;
+interface FlowOption {
   text: string;
-  buttons: QuestionButton[][]; // empty for Q7 (free-text age input)
+  data: string; // callback_data value sent back when pressed — unique across the flow
+  value: string; // canonical answer value stored in Answers
+  numeric?: number; // optional number used by threshold rules (e.g. weekly hours)
+  points?: number; // contribution to the score when chosen
+}
+
+interface FlowValidation {
+  min?: number; // "number": smallest value; "multi_select": fewest options ticked; "media": shortest, in seconds
+  max?: number; // "number": largest value; "multi_select": most options ticked; "media": longest, in seconds
+  min_length?: number; // "text" only
+  max_length?: number; // "text" only
+  pattern?: string; // "text" only — regex the whole answer must match
+  error_message: string;
 }
 
+// Threshold rules compare the answer's numeric value: the parsed number for
+// "number" questions, the chosen option's `numeric` for "choice" questions, or
+// the sum of the ticked options' `numeric` for "multi_select" questions.
+// "equals" rules match if any ticked option (or the typed answer) is listed.
+// The "min_weekly_hours" threshold resolves to the campaign's min_weekly_hours,
+// else the MIN_WEEKLY_HOURS env var.
+// `{threshold}` in a message is replaced with the resolved threshold.
+// Knock-out rules end the flow as soon as the question is answered; the rest
+// are checked when the candidate confirms the review screen.
+type FailRule = (
+  | { kind: "equals"; values: string[]; message: string }
+  | { kind: "less_than"; threshold: number | "min_weekly_hours"; message: string }
+  | { kind: "at_least"; threshold: number; message: string }
+) & { knockout?: boolean };
+
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
-const QUESTIONS: readonly Question[] = [
-  {
-    key: "team_role",
-    text:
-      "<b>Q1/8</b> 🧩\n" +
-      "En SpanishVIP buscamos un rol de <b>equipo</b> (no estilo marketplace).\n" +
-      "¿Buscas un rol fijo y comprometido con el equipo?",
-    buttons: [
-      [{ text: "1) ✅ Sí", data: "Q1_YES" }],
-      [{ text: "2) ❌ No", data: "Q1_NO" }],
+const COMPLETED_STEP: StepId = "completed";
+const REVIEW_STEP: StepId = "review"; // all questions answered, waiting for "Confirmar"
+const CONSENT_STEP: StepId = "consent"; // privacy policy shown before the first question
+
+// Navigation callback_data (reserved — flows can't use these for options)
+const BACK_CALLBACK_PREFIX = "BACK:"; // BACK:<step id the button was shown on>
+const EDIT_CALLBACK_PREFIX = "EDIT:"; // EDIT:<step id to re-answer>
+const REVIEW_CONFIRM_DATA = "REVIEW_CONFIRM";
+const REVIEW_EDIT_DATA = "REVIEW_EDIT";
+const REVIEW_SHOW_DATA = "REVIEW_SHOW";
+const DONE_CALLBACK_PREFIX = "DONE:"; // DONE:<multi_select step id> — the "Listo" button
+const CALLBACK_DATA_MAX_BYTES = 64; // Telegram's limit on a button's callback_data
+
+// Reply keyboard for "contact" questions (these arrive as plain messages)
+const CONTACT_BUTTON_TEXT = "📱 Compartir mi número";
+const CONTACT_BACK_TEXT = "⬅️ Atrás";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+const EMAIL_MAX_LENGTH = 254;
+
+// "media" questions (speaking samples)
+const DEFAULT_MEDIA_KINDS: MediaKind[] = ["voice", "video_note"];
+const MEDIA_KIND_LABELS: Record<MediaKind, string> = {
+  voice: "🎙️ Nota de voz",
+  video_note: "📹 Video circular",
+  video: "🎬 Video",
+};
+
+// First built-in flow. Frozen: sessions pinned to "v1" (and those that started
+// before flows were versioned) must keep seeing exactly these questions.
+const FLOW_V1: FlowDefinition = {
+  version: "v1",
+  questions: [
+    {
+      id: "q1_team_role",
+      answer_key: "team_role",
+      summary_label: "Rol fijo en equipo",
+      text:
+        "<b>Q1/8</b> 🧩\n" +
+        "En SpanishVIP buscamos un rol de <b>equipo</b> (no estilo marketplace).\n" +
+        "¿Buscas un rol fijo y comprometido con el equipo?",
+      input: "choice",
+      options: [
+        { text: "1) ✅ Sí", data: "Q1_YES", value: "yes" },
+        { text: "2) ❌ No", data: "Q1_NO", value: "no" },
+      ],
+      fail_rules: [
+        {
+          kind: "equals",
+          values: ["no"],
+          message:
+            "💛 ¡Gracias por tu interés!\n" +
+            "En este momento buscamos candidatos para un rol fijo de equipo.\n" +
+            "🙏 Te deseamos mucho éxito.",
+        },
+      ],
+    },
+    {
+      id: "q2_weekly_hours",
+      answer_key: "weekly_availability",
+      summary_label: "Horas por semana",
+      text:
+        "<b>Q2/8</b> 🗓️\n" +
+        "¿Cuántas horas por semana puedes comprometerte de forma constante?",
+      input: "choice",
+      options: [
+        { text: "1) 💪 Tiempo completo (30+ hrs/sem)", data: "Q2_FT", value: "full_time", numeric: 30 },
+        { text: "2) 🙂 Medio tiempo (15–29 hrs/sem)", data: "Q2_PT", value: "part_time", numeric: 20 },
+        { text: "3) 🥲 Menos de 15 hrs/sem", data: "Q2_LOW", value: "low", numeric: 0 },
+      ],
+      fail_rules: [
+        {
+          kind: "less_than",
+          threshold: "min_weekly_hours",
+          message:
+            "💛 ¡Gracias!\n" +
+            "En este momento necesitamos un compromiso mínimo de {threshold} horas semanales.\n" +
+            "🙏 Te agradecemos tu tiempo.",
+        },
+      ],
+    },
+    {
+      id: "q3_start_date",
+      answer_key: "start_date",
+      summary_label: "Fecha de inicio",
+      text: "<b>Q3/8</b> ⏱️\n¿Cuándo podrías empezar?",
+      input: "choice",
+      options: [
+        { text: "1) 🚀 Inmediatamente", data: "Q3_NOW", value: "now" },
+        { text: "2) 📆 En 1–2 semanas", data: "Q3_SOON", value: "soon" },
+        { text: "3) 🗓️ En 1 mes o más", data: "Q3_LATER", value: "later" },
+      ],
+    },
+    {
+      id: "q4_setup",
+      answer_key: "setup",
+      summary_label: "Internet y espacio",
+      text:
+        "<b>Q4/8</b> 💻🎧\n" +
+        "¿Tienes internet estable + un lugar tranquilo para enseñar?",
+      input: "choice",
+      options: [
+        { text: "1) ✅ Sí", data: "Q4_YES", value: "yes" },
+        { text: "2) ❌ No", data: "Q4_NO", value: "no" },
+      ],
+      fail_rules: [
+        {
+          kind: "equals",
+          values: ["no"],
+          message:
+            "💛 ¡Gracias!\n" +
+            "Para este rol es necesario contar con internet estable y un espacio tranquilo.\n" +
+            "🙏 Te deseamos lo mejor.",
+        },
+      ],
+    },
+    {
+      id: "q5_sop",
+      answer_key: "sop",
+      summary_label: "Currículum y SOPs",
+      text:
+        "<b>Q5/8</b> 📚✨\n" +
+        "¿Estás de acuerdo en seguir el currículum y los SOPs del equipo?",
+      input: "choice",
+      options: [
+        { text: "1) ✅ Sí", data: "Q5_YES", value: "yes" },
+        { text: "2) ❌ No", data: "Q5_NO", value: "no" },
+      ],
+      fail_rules: [
+        {
+          kind: "equals",
+          values: ["no"],
+          message:
+            "💛 ¡Gracias!\n" +
+            "Es importante seguir el currículum y los SOPs del equipo.\n" +
+            "🙏 Te agradecemos tu interés.",
+        },
+      ],
+    },
+    {
+      id: "q6_english",
+      answer_key: "english_level",
+      summary_label: "Nivel de inglés",
+      text:
+        "<b>Q6/8</b> 🇺🇸🗣️\n" +
+        "¿Cuál es tu nivel de inglés?",
+      input: "choice",
+      options: [
+        { text: "1) ✅ Bueno", data: "Q6_GOOD", value: "good" },
+        { text: "2) 🙂 Me defiendo", data: "Q6_OK", value: "ok" },
+        { text: "3) ❌ No sé mucho", data: "Q6_LOW", value: "low" },
+      ],
+      fail_rules: [
+        {
+          kind: "equals",
+          values: ["low"],
+          message:
+            "💛 ¡Gracias!\n" +
+            "Para este rol necesitamos al menos un nivel intermedio de inglés.\n" +
+            "🙏 Te deseamos mucho éxito.",
+        },
+      ],
+    },
+    {
+      id: "q7_age",
+      answer_key: "age",
+      summary_label: "Edad",
+      text:
+        "<b>Q7/8</b> 🎂\n" +
+        "¿Cuál es tu edad?\n" +
+        "(Escribe solo el número, por ejemplo: 24)",
+      input: "number",
+      validation: {
+        min: 10,
+        max: 80,
+        error_message: "😊 Por favor escribe tu edad en números (ej: 24).",
+      },
+      fail_rules: [
+        {
+          kind: "at_least",
+          threshold: 35,
+          message:
+            "💛 ¡Gracias!\n" +
+            "En este momento estamos buscando candidatos <b>menores de {threshold} años</b> para este rol.\n" +
+            "🙏 Te agradecemos tu tiempo y tu interés en SpanishVIP.",
+        },
+      ],
+    },
+    {
+      id: "q8_student_types",
+      answer_key: "student_types",
+      summary_label: "Tipo de estudiantes",
+      text: "<b>Q8/8</b> 👩‍🏫\n¿A qué tipo de estudiantes has enseñado?",
+      input: "choice",
+      options: [
+        { text: "1) Niños 👧🧒", data: "Q8_KIDS", value: "kids" },
+        { text: "2) Jóvenes 🎓", data: "Q8_TEENS", value: "teens" },
+        { text: "3) Adultos 💼", data: "Q8_ADULTS", value: "adults" },
+        { text: "4) Todos los anteriores 🌟", data: "Q8_ALL", value: "all" },
+      ],
+    },
+  ],
+};
+
+// Built-in flow new sessions start on when no flow has been published to KV.
+const DEFAULT_FLOW: FlowDefinition = {
+  version: "v2",
+  questions: [
+    {
+      id: "q1_team_role",
+      answer_key: "team_role",
+      summary_label: "Rol fijo en equipo",
+      text:
+        "<b>Q1/8</b> 🧩\n" +
+        "En SpanishVIP buscamos un rol de <b>equipo</b> (no estilo marketplace).\n" +
+        "¿Buscas un rol fijo y comprometido con el equipo?",
+      input: "choice",
+      options: [
+        { text: "1) ✅ Sí", data: "Q1_YES", value: "yes" },
+        { text: "2) ❌ No", data: "Q1_NO", value: "no" },
+      ],
+      fail_rules: [
+        {
+          kind: "equals",
+          values: ["no"],
+          knockout: true,
+          message:
+            "💛 ¡Gracias por tu interés!\n" +
+            "En este momento buscamos candidatos para un rol fijo de equipo.\n" +
+            "🙏 Te deseamos mucho éxito.",
+        },
+      ],
+    },
+    {
+      id: "q2_weekly_hours",
+      answer_key: "weekly_availability",
+      summary_label: "Horas por semana",
+      text:
+        "<b>Q2/8</b> 🗓️\n" +
+        "¿Cuántas horas por semana puedes comprometerte de forma constante?",
+      input: "choice",
+      options: [
+        { text: "1) 💪 Tiempo completo (30+ hrs/sem)", data: "Q2_FT", value: "full_time", numeric: 30, points: 20 },
+        { text: "2) 🙂 Medio tiempo (15–29 hrs/sem)", data: "Q2_PT", value: "part_time", numeric: 20, points: 10 },
+        { text: "3) 🥲 Menos de 15 hrs/sem", data: "Q2_LOW", value: "low", numeric: 0, points: 0 },
+      ],
+      fail_rules: [
+        {
+          kind: "less_than",
+          threshold: "min_weekly_hours",
+          knockout: true,
+          message:
+            "💛 ¡Gracias!\n" +
+            "En este momento necesitamos un compromiso mínimo de {threshold} horas semanales.\n" +
+            "🙏 Te agradecemos tu tiempo.",
+        },
+      ],
+    },
+    {
+      id: "q3_start_date",
+      answer_key: "start_date",
+      summary_label: "Fecha de inicio",
+      text: "<b>Q3/8</b> ⏱️\n¿Cuándo podrías empezar?",
+      input: "choice",
+      options: [
+        { text: "1) 🚀 Inmediatamente", data: "Q3_NOW", value: "now", points: 15 },
+        { text: "2) 📆 En 1–2 semanas", data: "Q3_SOON", value: "soon", points: 10 },
+        { text: "3) 🗓️ En 1 mes o más", data: "Q3_LATER", value: "later", points: 3 },
+      ],
+    },
+    {
+      id: "q4_setup",
+      answer_key: "setup",
+      summary_label: "Internet y espacio",
+      text:
+        "<b>Q4/8</b> 💻🎧\n" +
+        "¿Tienes internet estable + un lugar tranquilo para enseñar?",
+      input: "choice",
+      options: [
+        { text: "1) ✅ Sí", data: "Q4_YES", value: "yes" },
+        { text: "2) ❌ No", data: "Q4_NO", value: "no" },
+      ],
+      fail_rules: [
+        {
+          kind: "equals",
+          values: ["no"],
+          knockout: true,
+          message:
+            "💛 ¡Gracias!\n" +
+            "Para este rol es necesario contar con internet estable y un espacio tranquilo.\n" +
+            "🙏 Te deseamos lo mejor.",
+        },
+      ],
+    },
+    {
+      id: "q5_sop",
+      answer_key: "sop",
+      summary_label: "Currículum y SOPs",
+      text:
+        "<b>Q5/8</b> 📚✨\n" +
+        "¿Estás de acuerdo en seguir el currículum y los SOPs del equipo?",
+      input: "choice",
+      options: [
+        { text: "1) ✅ Sí", data: "Q5_YES", value: "yes" },
+        { text: "2) ❌ No", data: "Q5_NO", value: "no" },
+      ],
+      fail_rules: [
+        {
+          kind: "equals",
+          values: ["no"],
+          knockout: true,
+          message:
+            "💛 ¡Gracias!\n" +
+            "Es importante seguir el currículum y los SOPs del equipo.\n" +
+            "🙏 Te agradecemos tu interés.",
+        },
+      ],
+    },
+    {
+      id: "q6_english",
+      answer_key: "english_level",
+      summary_label: "Nivel de inglés",
+      text:
+        "<b>Q6/8</b> 🇺🇸🗣️\n" +
+        "¿Cuál es tu nivel de inglés?",
+      input: "choice",
+      options: [
+        { text: "1) ✅ Bueno", data: "Q6_GOOD", value: "good", points: 20 },
+        { text: "2) 🙂 Me defiendo", data: "Q6_OK", value: "ok", points: 10 },
+        { text: "3) ❌ No sé mucho", data: "Q6_LOW", value: "low", points: 0 },
+      ],
+      fail_rules: [
+        {
+          kind: "equals",
+          values: ["low"],
+          knockout: true,
+          message:
+            "💛 ¡Gracias!\n" +
+            "Para este rol necesitamos al menos un nivel intermedio de inglés.\n" +
+            "🙏 Te deseamos mucho éxito.",
+        },
+      ],
+    },
+    {
+      id: "q7_age",
+      answer_key: "age",
+      summary_label: "Edad",
+      text:
+        "<b>Q7/8</b> 🎂\n" +
+        "¿Cuál es tu edad?\n" +
+        "(Escribe solo el número, por ejemplo: 24)",
+      input: "number",
+      validation: {
+        min: 10,
+        max: 80,
+        error_message: "😊 Por favor escribe tu edad en números (ej: 24).",
+      },
+      fail_rules: [
+        {
+          kind: "at_least",
+          threshold: 35,
+          knockout: true,
+          message:
+            "💛 ¡Gracias!\n" +
+            "En este momento estamos buscando candidatos <b>menores de {threshold} años</b> para este rol.\n" +
+            "🙏 Te agradecemos tu tiempo y tu interés en SpanishVIP.",
+        },
+      ],
+    },
+    {
+      id: "q8_student_types",
+      answer_key: "student_types",
+      summary_label: "Tipo de estudiantes",
+      text:
+        "<b>Q8/8</b> 👩‍🏫\n" +
+        "¿A qué tipo de estudiantes has enseñado?\n" +
+        "(Marca todas las que apliquen y toca <b>Listo</b>)",
+      input: "multi_select",
+      options: [
+        { text: "1) Niños 👧🧒", data: "Q8_KIDS", value: "kids", points: 5 },
+        { text: "2) Jóvenes 🎓", data: "Q8_TEENS", value: "teens", points: 5 },
+        { text: "3) Adultos 💼", data: "Q8_ADULTS", value: "adults", points: 5 },
+      ],
+      validation: {
+        min: 1,
+        error_message: "👆 Marca al menos una opción y luego toca <b>Listo</b>.",
+      },
+    },
+  ],
+  // Max 70 points. Q1, Q4, Q5 and Q7 are knockouts only, so the score ranks
+  // hours, start date, English and student types among eligible candidates.
+  // Every fail rule is a knockout, so anyone who clears them is at least
+  // reviewed by a person, however low they score — there is no "fail" tier.
+  scoring: {
+    tiers: [
+      { id: "strong_pass", min_score: 55 },
+      { id: "pass", min_score: 40 },
+      { id: "manual_review", min_score: 0 },
     ],
   },
-  {
-    key: "weekly_availability",
-    text:
-      "<b>Q2/8</b> 🗓️\n" +
-      "¿Cuántas horas por semana puedes comprometerte de forma constante?",
-    buttons: [
-      [{ text: "1) 💪 Tiempo completo (30+ hrs/sem)", data: "Q2_FT" }],
-      [{ text: "2) 🙂 Medio tiempo (15–29 hrs/sem)", data: "Q2_PT" }],
-      [{ text: "3) 🥲 Menos de 15 hrs/sem", data: "Q2_LOW" }],
-    ],
+};
+
+// Built-in flows by version — never looked up in KV.
+const BUILT_IN_FLOWS = new Map<string, FlowDefinition>([FLOW_V1, DEFAULT_FLOW].map((flow) => [flow.version, flow]));
+
+// Candidate-facing defaults per tier. "interview" tiers get slots (or the
+// WhatsApp handoff) and a staff card; "review" tiers get a staff card only.
+const TIER_DEFAULTS: Record<OutcomeTier, { handoff: "interview" | "review" | "none"; message: string; card_title: string }> = {
+  strong_pass: {
+    handoff: "interview",
+    message: "🌟 <b>¡Excelente! Tu perfil es justo lo que buscamos</b> ✅",
+    card_title: "🌟 <b>Candidato destacado</b>",
   },
-  {
-    key: "start_date",
-    text: "<b>Q3/8</b> ⏱️\n¿Cuándo podrías empezar?",
-    buttons: [
-      [{ text: "1) 🚀 Inmediatamente", data: "Q3_NOW" }],
-      [{ text: "2) 📆 En 1–2 semanas", data: "Q3_SOON" }],
-      [{ text: "3) 🗓️ En 1 mes o más", data: "Q3_LATER" }],
-    ],
+  pass: {
+    handoff: "interview",
+    message: "🎉 <b>¡Excelente! Has pasado el pre-filtro</b> ✅",
+    card_title: "🆕 <b>Candidato aprobado</b>",
   },
-  {
-    key: "setup",
-    text:
-      "<b>Q4/8</b> 💻🎧\n" +
-      "¿Tienes internet estable + un lugar tranquilo para enseñar?",
-    buttons: [
-      [{ text: "1) ✅ Sí", data: "Q4_YES" }],
-      [{ text: "2) ❌ No", data: "Q4_NO" }],
-    ],
+  manual_review: {
+    handoff: "review",
+    message:
+      "🙌 <b>¡Gracias por completar el pre-filtro!</b>\n\n" +
+      "🔎 Nuestro equipo revisará tu perfil personalmente y te escribirá en los próximos días.",
+    card_title: "🔎 <b>Revisión manual</b>",
   },
-  {
-    key: "sop",
-    text:
-      "<b>Q5/8</b> 📚✨\n" +
-      "¿Estás de acuerdo en seguir el currículum y los SOPs del equipo?",
-    buttons: [
-      [{ text: "1) ✅ Sí", data: "Q5_YES" }],
-      [{ text: "2) ❌ No", data: "Q5_NO" }],
-    ],
+  fail: {
+    handoff: "none",
+    message:
+      "💛 ¡Gracias por completar el pre-filtro!\n" +
+      "En este momento tu perfil no se ajusta a lo que buscamos para este rol.\n" +
+      "🙏 Te deseamos mucho éxito.",
+    card_title: "❌ <b>No aprobado</b>",
   },
-  {
-    key: "english_level",
-    text:
-      "<b>Q6/8</b> 🇺🇸🗣️\n" +
-      "¿Cuál es tu nivel de inglés?",
-    buttons: [
-      [{ text: "1) ✅ Bueno", data: "Q6_GOOD" }],
-      [{ text: "2) 🙂 Me defiendo", data: "Q6_OK" }],
-      [{ text: "3) ❌ No sé mucho", data: "Q6_LOW" }],
-    ],
+};
+
+// KV keys for published flows
+const FLOW_ACTIVE_KEY = "flow:active"; // value: version string of the flow new sessions use
+const FLOW_KEY_PREFIX = "flow:"; // flow:<version> → FlowDefinition JSON
+
+// Session / rate limit TTLs
+const SESSION_TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days
+const RATE_LIMIT_TTL_SECONDS = 60; // 1 minute auto-expire for KV rate limit keys
+
+// Cap on a session's event log, so a candidate spamming input can't grow it forever. Past the cap the
+// oldest entries after the first are dropped, keeping the start time and the closing events.
+const SESSION_EVENT_LIMIT = 300;
+
+// Durable Object storage key for the chat's session
+const DO_SESSION_KEY = "session";
+const DO_PROCESSED_UPDATES_KEY = "processed-updates"; // ProcessedUpdate[] — recent update ids for dedupe
+
+const APPLICANT_KEY_PREFIX = "applicant:";
+
+// Campaigns
+const CAMPAIGN_KEY_PREFIX = "campaign:"; // campaign:<id> → CampaignConfig JSON
+const CAMPAIGN_SEPARATOR = "__"; // raw start payload "<token>__<campaign id>"
+const CAMPAIGN_ID_PATTERN = /^[A-Za-z0-9-]{1,26}$/; // UUID token + "__" + id fits Telegram's 64-char start payload
+const DEFAULT_HANDOFF_NAME = "Maria Camila";
+const DEFAULT_MIN_WEEKLY_HOURS = 15;
+
+// Screening history per Telegram account (private chat id = Telegram user id)
+const SCREENING_HISTORY_KEY_PREFIX = "screenings:";
+const SCREENING_HISTORY_LIMIT = 20; // most recent entries kept
+const DEFAULT_RETAKE_COOLDOWN_DAYS = 90;
+
+// Signed start links
+const SIGNED_LINK_PREFIX = "s-";
+const SIGNED_LINK_FORMAT_UUID = 1;
+const SIGNED_LINK_FORMAT_TEXT = 2;
+const SIGNED_LINK_MAC_BYTES = 12; // truncated HMAC-SHA256 (96 bits)
+const SIGNED_LINK_DEFAULT_TTL_DAYS = 14;
+const SIGNED_LINK_MAX_TTL_DAYS = 365; // keeps the expiry well inside its 32-bit field
+const TELEGRAM_START_PARAM_MAX = 64;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Recruiter candidate cards
+const CANDIDATE_CARD_KEY_PREFIX = "card:";
+const RECRUITER_CALLBACK_PREFIX = "rc:"; // rc:<action>:<card id>
+
+// Buttons on each candidate card, in display order. candidate_message is sent
+// to the candidate when NOTIFY_CANDIDATE_ON_DECISION is "true".
+const RECRUITER_ACTIONS: Record<RecruiterAction, { label: string; candidate_message: string }> = {
+  contact: {
+    label: "📞 Contactar",
+    candidate_message:
+      "👋 ¡Hola {first_name}! Una persona de nuestro equipo te contactará muy pronto para continuar con tu proceso.",
   },
-  {
-    key: "age",
+  schedule: {
+    label: "📅 Agendar entrevista",
+    candidate_message:
+      "📅 ¡Hola {first_name}! Queremos agendar tu <b>primera entrevista</b>. Te escribiremos en breve para coordinar el horario.",
+  },
+  reject: {
+    label: "🚫 Descartar",
+    candidate_message:
+      "💛 Hola {first_name}, gracias por tu tiempo. En esta ocasión no continuaremos con tu proceso.\n" +
+      "🙏 Te deseamos mucho éxito.",
+  },
+};
+
+// Outbound notifications (POST /notify)
+const NOTIFY_TEMPLATE_KEY_PREFIX = "template:"; // template:<name> → NotifyTemplate JSON
+const NOTIFY_TEMPLATE_NAME_PATTERN = /^[a-z0-9_-]{1,64}$/;
+const NOTIFY_VARIABLE_PATTERN = /\{([a-z0-9_]+)\}/g;
+const NOTIFY_MAX_BUTTONS = 5;
+const NOTIFY_TEMPLATES: Record<string, NotifyTemplate> = {
+  interview_reminder: {
+    text: "⏰ ¡Hola {first_name}! Te recordamos tu entrevista con SpanishVIP: <b>{when}</b>.\n¡Te esperamos! 💛",
+  },
+  not_selected: {
     text:
-      "<b>Q7/8</b> 🎂\n" +
-      "¿Cuál es tu edad?\n" +
-      "(Escribe solo el número, por ejemplo: 24)",
-    buttons: [], // free-text input — no inline keyboard
+      "💛 Hola {first_name}, gracias por tu interés en SpanishVIP. Lamentablemente no seguiremos con tu " +
+      "aplicación en esta ocasión.\n🙏 Te deseamos mucho éxito.",
   },
-  {
-    key: "student_types",
-    text: "<b>Q8/8</b> 👩‍🏫\n¿A qué tipo de estudiantes has enseñado?",
-    buttons: [
-      [{ text: "1) Niños 👧🧒", data: "Q8_KIDS" }],
-      [{ text: "2) Jóvenes 🎓", data: "Q8_TEENS" }],
-      [{ text: "3) Adultos 💼", data: "Q8_ADULTS" }],
-      [{ text: "4) Todos los anteriores 🌟", data: "Q8_ALL" }],
-    ],
+  update: {
+    text: "📩 ¡Hola {first_name}! Tenemos novedades sobre tu aplicación:\n\n{message}",
   },
-];
+};
 
-// Ordered list of steps (maps directly to QUESTIONS by index)
-const STEP_ORDER: Step[] = [
-  "q1_team_role",
-  "q2_weekly_hours",
-  "q3_start_date",
-  "q4_setup",
-  "q5_sop",
-  "q6_english",
-  "q7_age",
-  "q8_student_types",
-];
+// Support bridge (SUPPORT_CHAT_ID)
+const SUPPORT_THREAD_KEY_PREFIX = "support:"; // support:<chatId> → SupportThread
+const SUPPORT_TOPIC_KEY_PREFIX = "support-topic:"; // support-topic:<thread id> → chat id
+const SUPPORT_THREAD_TTL_SECONDS = 60 * 60 * 24 * 30; // 30 days since the last message either way
+const SUPPORT_TOPIC_NAME_MAX = 128;
+const SUPPORT_TOPIC_GONE_PATTERN = /thread not found|topic not found|TOPIC_DELETED/i; // Bot API error descriptions
 
-// Maps each step to the callback_data prefix used by that step's buttons
-const STEP_PREFIX: Record<Step, string> = {
-  q1_team_role: "Q1",
-  q2_weekly_hours: "Q2",
-  q3_start_date: "Q3",
-  q4_setup: "Q4",
-  q5_sop: "Q5",
-  q6_english: "Q6",
-  q7_age: "Q7",
-  q8_student_types: "Q8",
-  completed: "",
-};
+// Interview scheduling
+const CALENDAR_INSTANCE_NAME = "global";
+const CALENDAR_SLOT_KEY_PREFIX = "slot:";
+const INTERVIEW_CONTEXT_KEY_PREFIX = "interview:";
+const INTERVIEW_CONTEXT_TTL_SECONDS = 60 * 60 * 24 * 30; // 30 days
+const SLOT_CALLBACK_PREFIX = "SLOT_"; // SLOT_<slot id>
+const INTERVIEW_SLOTS_OFFERED = 6;
+const INTERVIEW_MIN_NOTICE_MS = 2 * 60 * 60 * 1000; // slots must start at least 2 hours out
+const DEFAULT_INTERVIEW_DURATION_MINUTES = 30;
+const BOOKED_SLOT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // past interviews stay listed this long
+const SLOT_STARTS_AT_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})$/;
+const DEFAULT_INTERVIEW_TIMEZONE = "America/Bogota";
 
-// Maps callback suffix → canonical answer value for each question prefix
-const CALLBACK_VALUE_MAP: Record<string, Record<string, string>> = {
-  Q1: { YES: "yes", NO: "no" },
-  Q2: { FT: "full_time", PT: "part_time", LOW: "low" },
-  Q3: { NOW: "now", SOON: "soon", LATER: "later" },
-  Q4: { YES: "yes", NO: "no" },
-  Q5: { YES: "yes", NO: "no" },
-  Q6: { GOOD: "good", OK: "ok", LOW: "low" },
-  Q8: { KIDS: "kids", TEENS: "teens", ADULTS: "adults", ALL: "all" },
-};
+// Recruiter pool (RecruiterPool Durable Object storage keys)
+const RECRUITER_POOL_INSTANCE_NAME = "global";
+const RECRUITER_KEY_PREFIX = "recruiter:"; // recruiter:<id> → Recruiter
+const RECRUITER_LOAD_KEY_PREFIX = "load:"; // load:<id> → assignment times (epoch ms) in the last 7 days
+const RECRUITER_ID_PATTERN = /^[a-z0-9-]{1,32}$/;
+const RECRUITER_LOAD_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const WORK_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/; // "HH:MM"
+const DEFAULT_WORK_DAYS = [1, 2, 3, 4, 5]; // Monday–Friday
 
-// Maps Q2 canonical answer values to approximate weekly hours for threshold comparison
-const HOURS_MAP: Record<string, number> = {
-  full_time: 30,
-  part_time: 20,
-  low: 0,
-};
+// Funnel metrics (FunnelMetrics Durable Object storage keys)
+const METRICS_INSTANCE_NAME = "global";
+const METRICS_COUNTER_KEY_PREFIX = "c|"; // c|<day>|<campaign>|<counter> → count
+const METRICS_DURATION_KEY_PREFIX = "d|"; // d|<day>|<campaign> → completion times in seconds
+const METRICS_DEFAULT_RANGE_DAYS = 30;
+const METRICS_MAX_RANGE_DAYS = 366;
+const METRICS_DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
-// KV TTLs
-const SESSION_TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days
-const RATE_LIMIT_TTL_SECONDS = 60; // 1 minute auto-expire for rate limit keys
+// Idle-session reminders
+const ACTIVE_SESSION_KEY_PREFIX = "active:"; // active:<chatId> — index of sessions for the idle sweep
+const RESUME_CALLBACK_DATA = "RESUME";
+const DEFAULT_REMINDER_AFTER_HOURS = [24, 72];
+const DEFAULT_ABANDON_AFTER_HOURS = 144; // 6 days, before the 7-day session TTL
+const IDLE_SWEEP_CRON = "0 * * * *"; // must match a cron in wrangler.toml
+const IDLE_SWEEP_PROGRESS_KEY = "idle-sweep:progress";
+const IDLE_SWEEP_BATCH_SIZE = 50; // sessions per cron invocation — each costs a DO call and a few KV reads
+const ACTIVE_SESSION_TTL_SECONDS = 60 * 60 * 24 * 30; // far past any real screening, so only orphans expire
+
+// Privacy — consent and data deletion buttons (reserved callback_data)
+const CONSENT_ACCEPT_DATA = "CONSENT_YES";
+const CONSENT_DECLINE_DATA = "CONSENT_NO";
+const DELETE_DATA_CONFIRM_DATA = "DELETE_DATA_YES";
+const DELETE_DATA_CANCEL_DATA = "DELETE_DATA_NO";
+const RETENTION_PURGE_CRON = "30 3 * * *"; // must match a cron in wrangler.toml
+const PURGE_PROGRESS_KEY = "purge:progress";
+const PURGE_BATCH_SIZE = 300; // keys per cron invocation, well inside the subrequest limit
+
+// Telegram Bot API client
+const TELEGRAM_MAX_ATTEMPTS = 3; // the first call plus retries after a 429
+const TELEGRAM_MAX_RETRY_AFTER_SECONDS = 10; // longer waits go to the retry queue instead
+const TELEGRAM_RETRY_KEY_PREFIX = "tg-retry:";
+const TELEGRAM_RETRY_MAX_ATTEMPTS = 5; // cron attempts before a queued call is dropped
+const TELEGRAM_RETRY_BATCH_SIZE = 20; // queued calls made per cron invocation; the rest wait for the next one
+// Calls still worth making minutes later (a callback query can't be answered by then)
+const TELEGRAM_QUEUED_METHODS = new Set([
+  "sendMessage",
+  "editMessageText",
+  "editMessageReplyMarkup",
+  "sendVoice",
+  "sendVideoNote",
+  "sendVideo",
+  "copyMessage",
+]);
+
+// Telegram redelivers unacknowledged updates for up to 24 hours
+const PROCESSED_UPDATE_TTL_SECONDS = 60 * 60 * 24;
+const PROCESSED_UPDATE_LIMIT = 500; // ids kept per chat; redeliveries arrive long before 500 newer updates
+
+// Outbox delivery config
+const OUTBOX_KEY_PREFIX = "outbox:";
+const DEAD_LETTER_KEY_PREFIX = "dead-letter:";
+const OUTBOX_MAX_ATTEMPTS = 8; // then moved to the dead-letter list
+const OUTBOX_BASE_BACKOFF_MS = 60_000; // 1 min, doubled after each failure
+const OUTBOX_MAX_BACKOFF_MS = 6 * 60 * 60 * 1000; // 6 hours
+const OUTBOX_BATCH_SIZE = 20; // deliveries per cron invocation; the rest wait for the next one
+
+// Results store — a copy of every result, independent of Make
+const RESULT_KEY_PREFIX = "result:"; // result:<recorded_at ISO-8601>:<idempotency_key> → ResultPayload
+const RESULT_CHAT_INDEX_PREFIX = "result-chat:"; // result-chat:<chatId>:<recorded_at>:<idempotency_key> → ""
+const RESULTS_DEFAULT_RANGE_DAYS = 30;
+const RESULTS_MAX_RANGE_DAYS = 366;
+const RESULTS_PAGE_SIZE = 250; // payloads read per /admin/results request
+
+// Dry-run simulation (/admin/simulate)
+const SIMULATION_CHAT_ID = 1; // when the request names none
+const SIMULATION_APPLICANT_TOKEN = "simulation";
+const SIMULATION_FLOW_VERSION = "simulation"; // a posted flow is run under this version
+const SIMULATION_MAX_INPUTS = 200;
 
 // Rate limiting config
 const RATE_LIMIT_WINDOW_MS = 10_000; // 10-second sliding window
 const RATE_LIMIT_MAX_ACTIONS = 5; // max actions allowed per window
 
 // ---------------------------------------------------------------------------
-// KV helpers
+// Session storage — per-chat Durable Object, with KV as fallback/migration path
 // ---------------------------------------------------------------------------
 
-async function loadSession(chatId: number, env: Env): Promise<SessionState | null> {
+/**
+ * One instance per chat (named by chat id). Durable Objects process calls for
+ * one chat one at a time, so answer recording can be made atomic with a
+ * compare-and-set on the current step, and the rate-limit window can live in
+ * memory instead of costing a KV write per action.
+ */
+export class ChatSession extends DurableObject<Env> {
+  // Losing this on eviction only resets the rate-limit window
+  private actionTimestamps: number[] = [];
+
+  async getSession(): Promise<SessionState | null> {
+    return (await this.ctx.storage.get<SessionState>(DO_SESSION_KEY)) ?? null;
+  }
+
+  async putSession(state: SessionState): Promise<void> {
+    await this.ctx.storage.put(DO_SESSION_KEY, state);
+    // Sliding expiry, like the KV TTL it replaces
+    await this.ctx.storage.setAlarm(Date.now() + SESSION_TTL_SECONDS * 1000);
+  }
+
+  async deleteSession(): Promise<void> {
+    this.actionTimestamps = [];
+    // The recent update ids outlive the session, so a redelivered update can't act on a fresh one
+    const updates = await this.ctx.storage.get<ProcessedUpdate[]>(DO_PROCESSED_UPDATES_KEY);
+    await this.ctx.storage.deleteAlarm();
+    await this.ctx.storage.deleteAll();
+    if (updates?.length) {
+      await this.ctx.storage.put(DO_PROCESSED_UPDATES_KEY, updates);
+      await this.ctx.storage.setAlarm(Date.now() + PROCESSED_UPDATE_TTL_SECONDS * 1000);
+    }
+  }
+
+  /**
+   * Records an update for this chat. Returns false if it was already seen, in
+   * which case it must not be handled again.
+   */
+  async claimUpdate(updateId: number): Promise<boolean> {
+    const now = Date.now();
+    const stored = (await this.ctx.storage.get<ProcessedUpdate[]>(DO_PROCESSED_UPDATES_KEY)) ?? [];
+    const recent = stored.filter((u) => now - u.at < PROCESSED_UPDATE_TTL_SECONDS * 1000);
+    if (recent.some((u) => u.id === updateId)) return false;
+    recent.push({ id: updateId, at: now });
+    await this.ctx.storage.put(DO_PROCESSED_UPDATES_KEY, recent.slice(-PROCESSED_UPDATE_LIMIT));
+    // Chats without a session (staff, support group) still need their ids cleared eventually
+    if ((await this.ctx.storage.getAlarm()) === null) {
+      await this.ctx.storage.setAlarm(now + PROCESSED_UPDATE_TTL_SECONDS * 1000);
+    }
+    return true;
+  }
+
+  /**
+   * Stores `next` only if the stored session is still at `expectedStep`.
+   * Returns false when another update for this chat got there first.
+   */
+  async commitSession(expectedStep: StepId, next: SessionState): Promise<boolean> {
+    const current = await this.ctx.storage.get<SessionState>(DO_SESSION_KEY);
+    if (!current || current.step !== expectedStep) return false;
+    await this.putSession(next);
+    return true;
+  }
+
+  /** Sliding-window rate limit. Returns false if the action should be rejected. */
+  hitRateLimit(): boolean {
+    const now = Date.now();
+    this.actionTimestamps = this.actionTimestamps.filter((t) => now - t < RATE_LIMIT_WINDOW_MS);
+    if (this.actionTimestamps.length >= RATE_LIMIT_MAX_ACTIONS) {
+      return false;
+    }
+    this.actionTimestamps.push(now);
+    return true;
+  }
+
+  async alarm(): Promise<void> {
+    await this.ctx.storage.deleteAll();
+  }
+}
+
+/** Returns the chat's Durable Object, or null when the binding isn't configured. */
+function chatSessionStub(chatId: number, env: Env): DurableObjectStub<ChatSession> | null {
+  if (!env.CHAT_SESSIONS) return null;
+  return env.CHAT_SESSIONS.get(env.CHAT_SESSIONS.idFromName(String(chatId)));
+}
+
+async function loadKvSession(chatId: number, env: Env): Promise<SessionState | null> {
   const raw = await env.BOT_KV.get(String(chatId));
   if (!raw) return null;
   try {
@@ -252,245 +1331,4017 @@ async function loadSession(chatId: number, env: Env): Promise<SessionState | nul
   }
 }
 
+async function loadSession(chatId: number, env: Env): Promise<SessionState | null> {
+  const stub = chatSessionStub(chatId, env);
+  if (!stub) return loadKvSession(chatId, env);
+
+  const session = (await stub.getSession()) as SessionState | null;
+  if (session) return session;
+
+  // Migrate a session that started while sessions lived in KV
+  const legacy = await loadKvSession(chatId, env);
+  if (legacy) {
+    await stub.putSession(legacy);
+    await env.BOT_KV.delete(String(chatId));
+  }
+  return legacy;
+}
+
 async function saveSession(chatId: number, state: SessionState, env: Env): Promise<void> {
+  const stub = chatSessionStub(chatId, env);
+  if (stub) {
+    await stub.putSession(state);
+    return;
+  }
   await env.BOT_KV.put(String(chatId), JSON.stringify(state), {
     expirationTtl: SESSION_TTL_SECONDS,
   });
 }
 
+/**
+ * Saves `state` only if the stored session is still at `expectedStep`, so a
+ * double-tapped button records one answer. Atomic with the Durable Object;
+ * best-effort on the KV fallback.
+ */
+async function commitSession(
+  chatId: number,
+  expectedStep: StepId,
+  state: SessionState,
+  env: Env,
+): Promise<boolean> {
+  const stub = chatSessionStub(chatId, env);
+  if (stub) return stub.commitSession(expectedStep, state);
+
+  const current = await loadKvSession(chatId, env);
+  if (!current || current.step !== expectedStep) return false;
+  await saveSession(chatId, state, env);
+  return true;
+}
+
 async function deleteSession(chatId: number, env: Env): Promise<void> {
   try {
-    await env.BOT_KV.delete(String(chatId));
+    await env.BOT_KV.delete(`${ACTIVE_SESSION_KEY_PREFIX}${chatId}`);
+    const stub = chatSessionStub(chatId, env);
+    if (stub) {
+      await stub.deleteSession();
+    } else {
+      await env.BOT_KV.delete(String(chatId));
+    }
   } catch (e) {
     console.error(`Failed to delete session for chatId ${chatId}:`, e);
   }
 }
 
 // ---------------------------------------------------------------------------
-// Rate limiting — per-chat sliding window stored in KV
+// Flow loading — versioned flow definitions stored in KV
 // ---------------------------------------------------------------------------
 
-async function checkRateLimit(chatId: number, env: Env): Promise<boolean> {
-  const key = `rl:${chatId}`;
-  const now = Date.now();
-  let state: RateLimitState = { timestamps: [] };
+// Published versions are immutable, so parsed flows can be cached per isolate.
+const flowCache = new Map<string, FlowDefinition>();
 
-  const raw = await env.BOT_KV.get(key);
-  if (raw) {
-    try {
-      state = JSON.parse(raw) as RateLimitState;
-    } catch {
-      state = { timestamps: [] };
-    }
+/** Structural check for one fail rule read from KV. Returns what is wrong with it, or null. */
+function validateFailRule(rule: FailRule): string | null {
+  if (!rule || typeof rule.message !== "string") return "has no message";
+  switch (rule.kind) {
+    case "equals":
+      return Array.isArray(rule.values) && rule.values.every((v) => typeof v === "string")
+        ? null
+        : "needs a string array of values";
+    case "less_than":
+      return Number.isFinite(rule.threshold) || rule.threshold === "min_weekly_hours"
+        ? null
+        : 'needs a numeric or "min_weekly_hours" threshold';
+    case "at_least":
+      return Number.isFinite(rule.threshold) ? null : "needs a numeric threshold";
+    default:
+      return `has unknown kind ${String((rule as { kind?: unknown }).kind)}`;
   }
+}
 
-  const recent = state.timestamps.filter((t) => now - t < RATE_LIMIT_WINDOW_MS);
-
-  if (recent.length >= RATE_LIMIT_MAX_ACTIONS) {
-    return false;
+/**
+ * Structural check for a flow read from KV. Returns an error description, or
+ * null if the flow is usable.
+ */
+function validateFlow(flow: FlowDefinition): string | null {
+  if (!flow || typeof flow.version !== "string" || !Array.isArray(flow.questions)) {
+    return "missing version or questions";
   }
+  if (flow.questions.length === 0) return "flow has no questions";
 
-  recent.push(now);
-  await env.BOT_KV.put(key, JSON.stringify({ timestamps: recent } satisfies RateLimitState), {
-    expirationTtl: RATE_LIMIT_TTL_SECONDS,
-  });
-  return true;
-}
+  const ids = new Set<string>();
+  const callbackData = new Set<string>();
+  const encoder = new TextEncoder();
+  const fitsCallbackData = (data: string) => encoder.encode(data).length <= CALLBACK_DATA_MAX_BYTES;
+  for (const q of flow.questions) {
+    if (!q.id || !q.answer_key || !q.text) return `question ${q.id ?? "?"} is missing id, answer_key or text`;
+    if (q.id === COMPLETED_STEP || q.id === REVIEW_STEP || q.id === CONSENT_STEP) return `question id "${q.id}" is reserved`;
+    if (ids.has(q.id)) return `duplicate question id ${q.id}`;
+    ids.add(q.id);
+    // Back, edit and "Listo" buttons carry the question id after a 5-byte prefix
+    const navigationData = [BACK_CALLBACK_PREFIX, EDIT_CALLBACK_PREFIX, DONE_CALLBACK_PREFIX].map((p) => p + q.id);
+    if (!navigationData.every(fitsCallbackData)) return `question id ${q.id} is too long for callback data`;
+
+    if (q.input === "choice" || q.input === "multi_select") {
+      if (!q.options?.length) return `${q.input} question ${q.id} has no options`;
+      for (const opt of q.options) {
+        if (typeof opt.text !== "string" || typeof opt.data !== "string" || typeof opt.value !== "string") {
+          return `an option of question ${q.id} has a non-string text, data or value`;
+        }
+        if (!fitsCallbackData(opt.data)) return `callback data ${opt.data} is over ${CALLBACK_DATA_MAX_BYTES} bytes`;
+        if (callbackData.has(opt.data)) return `duplicate callback data ${opt.data}`;
+        if (
+          [
+            RESUME_CALLBACK_DATA,
+            REVIEW_CONFIRM_DATA,
+            REVIEW_EDIT_DATA,
+            REVIEW_SHOW_DATA,
+            CONSENT_ACCEPT_DATA,
+            CONSENT_DECLINE_DATA,
+            DELETE_DATA_CONFIRM_DATA,
+            DELETE_DATA_CANCEL_DATA,
+          ].includes(opt.data) ||
+          [
+            SLOT_CALLBACK_PREFIX,
+            RECRUITER_CALLBACK_PREFIX,
+            BACK_CALLBACK_PREFIX,
+            EDIT_CALLBACK_PREFIX,
+            DONE_CALLBACK_PREFIX,
+          ].some((prefix) => opt.data.startsWith(prefix))
+        ) {
+          return `callback data ${opt.data} uses a reserved prefix`;
+        }
+        callbackData.add(opt.data);
+      }
+    } else if (q.input === "number" || q.input === "text") {
+      if (!q.validation?.error_message) return `${q.input} question ${q.id} has no validation.error_message`;
+    } else if (q.input === "media") {
+      if (q.media_kinds && (q.media_kinds.length === 0 || q.media_kinds.some((k) => !(k in MEDIA_KIND_LABELS)))) {
+        return `media question ${q.id} has invalid media_kinds`;
+      }
+    } else if (q.input !== "email" && q.input !== "contact") {
+      return `question ${q.id} has unknown input type ${String(q.input)}`;
+    }
+    if (q.validation && !q.validation.error_message) return `question ${q.id} has no validation.error_message`;
+    if (q.fail_rules !== undefined) {
+      if (!Array.isArray(q.fail_rules)) return `question ${q.id} has non-array fail_rules`;
+      for (const rule of q.fail_rules) {
+        const problem = validateFailRule(rule);
+        if (problem) return `a fail rule of question ${q.id} ${problem}`;
+      }
+    }
+    if (q.validation?.pattern !== undefined) {
+      try {
+        new RegExp(q.validation.pattern, "u");
+      } catch {
+        return `question ${q.id} has an invalid validation.pattern`;
+      }
+    }
+  }
+
+  if (flow.scoring) {
+    if (!Array.isArray(flow.scoring.tiers) || flow.scoring.tiers.length === 0) return "scoring has no tiers";
+    for (const tier of flow.scoring.tiers) {
+      if (!(tier.id in TIER_DEFAULTS)) return `unknown scoring tier ${String(tier.id)}`;
+      if (typeof tier.min_score !== "number") return `scoring tier ${tier.id} has no min_score`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Loads a specific flow version. Built-in versions are served from code; any
+ * other version is read from KV, falling back to DEFAULT_FLOW when it is
+ * missing or invalid.
+ */
+async function loadFlow(version: string | undefined, env: Env): Promise<FlowDefinition> {
+  if (!version) return DEFAULT_FLOW;
+  const builtIn = BUILT_IN_FLOWS.get(version);
+  if (builtIn) return builtIn;
+
+  // A flow posted to /admin/simulate must never be served to real sessions
+  const cached = env.SIMULATION ? undefined : flowCache.get(version);
+  if (cached) return cached;
+
+  const raw = await env.BOT_KV.get(`${FLOW_KEY_PREFIX}${version}`);
+  if (!raw) {
+    console.error(`Flow version ${version} not found in KV — using built-in flow`);
+    return DEFAULT_FLOW;
+  }
+
+  let flow: FlowDefinition;
+  try {
+    flow = JSON.parse(raw) as FlowDefinition;
+  } catch (e) {
+    console.error(`Failed to parse flow version ${version}:`, e);
+    return DEFAULT_FLOW;
+  }
+
+  const problem = validateFlow(flow);
+  if (problem) {
+    console.error(`Flow version ${version} is invalid (${problem}) — using built-in flow`);
+    return DEFAULT_FLOW;
+  }
+  if (flow.version !== version) {
+    console.error(`Flow stored under ${version} declares version ${flow.version} — using built-in flow`);
+    return DEFAULT_FLOW;
+  }
+
+  if (!env.SIMULATION) flowCache.set(version, flow);
+  return flow;
+}
+
+/** Loads the flow new sessions should start on (the one `flow:active` points at). */
+async function loadActiveFlow(env: Env): Promise<FlowDefinition> {
+  const version = await env.BOT_KV.get(FLOW_ACTIVE_KEY);
+  return loadFlow(version ?? undefined, env);
+}
+
+/** Loads the flow a session is pinned to. Unversioned sessions predate flows and ran v1. */
+async function loadSessionFlow(state: SessionState, env: Env): Promise<FlowDefinition> {
+  return loadFlow(state.flow_version ?? FLOW_V1.version, env);
+}
+
+// ---------------------------------------------------------------------------
+// Campaigns — per-campaign flow, threshold, intro text and handoff contact
+// ---------------------------------------------------------------------------
+
+/** Structural check for a campaign read from KV. Returns an error description, or null. */
+function validateCampaign(campaign: CampaignConfig): string | null {
+  if (!campaign || typeof campaign.id !== "string") return "missing id";
+  for (const field of ["flow_version", "intro_text", "handoff_name", "handoff_wa_me_link"] as const) {
+    if (campaign[field] !== undefined && (typeof campaign[field] !== "string" || !campaign[field])) {
+      return `${field} must be a non-empty string`;
+    }
+  }
+  if (
+    campaign.min_weekly_hours !== undefined &&
+    (typeof campaign.min_weekly_hours !== "number" || !(campaign.min_weekly_hours >= 0))
+  ) {
+    return "min_weekly_hours must be a number of at least 0";
+  }
+  return null;
+}
+
+/**
+ * Loads a campaign's settings. Returns null — global settings apply — when
+ * the campaign has no record in KV or the record is invalid.
+ */
+async function loadCampaign(id: string | undefined, env: Env): Promise<CampaignConfig | null> {
+  if (!id) return null;
+  const raw = await env.BOT_KV.get(`${CAMPAIGN_KEY_PREFIX}${id}`);
+  if (!raw) return null;
+
+  let campaign: CampaignConfig;
+  try {
+    campaign = JSON.parse(raw) as CampaignConfig;
+  } catch (e) {
+    console.error(`Failed to parse campaign ${id}:`, e);
+    return null;
+  }
+  const problem = validateCampaign(campaign) ?? (campaign.id !== id ? `declares id ${campaign.id}` : null);
+  if (problem) {
+    console.error(`Campaign ${id} is invalid (${problem}) — using global settings`);
+    return null;
+  }
+  return campaign;
+}
+
+/** Splits a raw start payload into the applicant token and an optional campaign id. */
+function parseStartToken(payload: string): { token: string; campaign?: string } {
+  const at = payload.lastIndexOf(CAMPAIGN_SEPARATOR);
+  const campaign = at > 0 ? payload.slice(at + CAMPAIGN_SEPARATOR.length) : "";
+  if (!CAMPAIGN_ID_PATTERN.test(campaign)) return { token: payload };
+  return { token: payload.slice(0, at), campaign };
+}
+
+/** The flow a new session in the campaign starts on. */
+async function loadCampaignFlow(campaign: CampaignConfig | null, env: Env): Promise<FlowDefinition> {
+  return campaign?.flow_version ? loadFlow(campaign.flow_version, env) : loadActiveFlow(env);
+}
+
+/** The weekly-hours threshold; "0" in MIN_WEEKLY_HOURS turns the hours knock-out off. */
+function minWeeklyHours(campaign: CampaignConfig | null, env: Env): number {
+  if (campaign?.min_weekly_hours !== undefined) return campaign.min_weekly_hours;
+  const parsed = parseInt(env.MIN_WEEKLY_HOURS ?? "", 10);
+  return Number.isFinite(parsed) ? parsed : DEFAULT_MIN_WEEKLY_HOURS;
+}
+
+/** Who interview-tier candidates are handed to when the recruiter pool has no one. */
+function handoffContact(campaign: CampaignConfig | null, env: Env): HandoffContact {
+  return {
+    name: campaign?.handoff_name ?? DEFAULT_HANDOFF_NAME,
+    link: campaign?.handoff_wa_me_link ?? env.MARIA_WA_ME_LINK,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Applicant records — intake data posted by Make when a lead arrives
+// ---------------------------------------------------------------------------
+
+async function loadApplicant(token: string, env: Env): Promise<ApplicantRecord | null> {
+  const raw = await env.BOT_KV.get(`${APPLICANT_KEY_PREFIX}${token}`);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as ApplicantRecord;
+  } catch (e) {
+    console.error(`Failed to parse applicant record for token ${token}:`, e);
+    return null;
+  }
+}
+
+async function saveApplicant(record: ApplicantRecord, env: Env): Promise<void> {
+  await env.BOT_KV.put(`${APPLICANT_KEY_PREFIX}${record.applicant_token}`, JSON.stringify(record));
+}
+
+/** Completed screenings of a Telegram account, oldest first. */
+async function loadScreeningHistory(chatId: number, env: Env): Promise<ScreeningRecord[]> {
+  const raw = await env.BOT_KV.get(`${SCREENING_HISTORY_KEY_PREFIX}${chatId}`);
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw) as ScreeningRecord[];
+  } catch (e) {
+    console.error(`Failed to parse screening history for chatId ${chatId}:`, e);
+    return [];
+  }
+}
+
+async function recordScreening(chatId: number, record: ScreeningRecord, env: Env): Promise<void> {
+  const history = [...(await loadScreeningHistory(chatId, env)), record].slice(-SCREENING_HISTORY_LIMIT);
+  await env.BOT_KV.put(`${SCREENING_HISTORY_KEY_PREFIX}${chatId}`, JSON.stringify(history));
+}
+
+/** The retake settings for an applicant: ONE_TOKEN_PER_ACCOUNT, RETAKE_COOLDOWN_DAYS and their timezone. */
+function retakeRules(applicant: ApplicantRecord, env: Env): RetakeRules {
+  const parsedDays = parseFloat(env.RETAKE_COOLDOWN_DAYS ?? "");
+  return {
+    one_token_per_account: env.ONE_TOKEN_PER_ACCOUNT === "true",
+    cooldown_days: Number.isFinite(parsedDays) && parsedDays >= 0 ? parsedDays : DEFAULT_RETAKE_COOLDOWN_DAYS,
+    timezone: resolveTimezone(applicant.timezone, env),
+  };
+}
+
+/**
+ * Pure function — checks the retake rules for an account about to screen
+ * under `applicant`. Returns the message to send instead, or null if the
+ * screening may start.
+ */
+function retakeBlockMessage(
+  applicant: ApplicantRecord,
+  history: ScreeningRecord[],
+  now: number,
+  rules: RetakeRules,
+): string | null {
+  if (rules.one_token_per_account && history.some((r) => r.applicant_token !== applicant.applicant_token)) {
+    return "⚠️ Ya realizaste el pre-filtro con otra aplicación desde esta cuenta de Telegram. " +
+      "Si crees que es un error, escríbenos por correo.";
+  }
+
+  // A failed candidate waits out the cooldown, whichever token they use
+  const lastFail = [...history].reverse().find((r) => r.result === "fail");
+  const retakeAt = lastFail ? Date.parse(lastFail.completed_at) + rules.cooldown_days * 24 * 60 * 60 * 1000 : 0;
+  if (now < retakeAt) {
+    const date = new Intl.DateTimeFormat("es", { dateStyle: "long", timeZone: rules.timezone }).format(retakeAt);
+    return `⏳ Ya realizaste el pre-filtro recientemente. Podrás intentarlo de nuevo a partir del <b>${date}</b>.`;
+  }
+
+  // Only a failed screening can be retaken
+  if (applicant.status === "completed" && applicant.result !== "fail") {
+    return "✅ Ya completaste el pre-filtro con este enlace. ¡Gracias! Nuestro equipo revisará tu aplicación.";
+  }
+  return null;
+}
+
+/** Flags a repeat screening by the same account in its payload. */
+function flagRepeatScreening(payload: ResultPayload, history: ScreeningRecord[]): void {
+  const last = history.at(-1);
+  if (!last) return;
+  payload.previous_result = last.result;
+  const otherToken = [...history].reverse().find((r) => r.applicant_token !== payload.applicant_token);
+  if (otherToken) payload.duplicate_of = otherToken.applicant_token;
+}
+
+/** Escapes text for inclusion in an HTML parse_mode message. */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/** Parses a request body that must be a JSON object; null for invalid JSON, arrays, null and scalars. */
+async function readJsonObject(request: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body: unknown = await request.json();
+    return typeof body === "object" && body !== null && !Array.isArray(body) ? (body as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * POST /applicants — called by Make when a lead lands in the Sheet. Creates
+ * the record, or updates the contact fields of an existing one while keeping
+ * its status and chat binding.
+ */
+async function handleCreateApplicant(request: Request, env: Env): Promise<Response> {
+  const body = await readJsonObject(request);
+  if (!body) {
+    return jsonResponse({ error: "invalid_json" }, 400);
+  }
+
+  const token = optionalString(body.applicant_token);
+  const firstName = optionalString(body.first_name);
+  if (!token || token.length < 4) {
+    return jsonResponse({ error: "applicant_token must be a string of at least 4 characters" }, 400);
+  }
+  if (!firstName) {
+    return jsonResponse({ error: "first_name is required" }, 400);
+  }
+
+  const existing = await loadApplicant(token, env);
+  const record: ApplicantRecord = {
+    ...existing,
+    applicant_token: token,
+    first_name: firstName,
+    email: optionalString(body.email) ?? existing?.email,
+    phone: optionalString(body.phone) ?? existing?.phone,
+    campaign: optionalString(body.campaign) ?? existing?.campaign,
+    timezone: optionalString(body.timezone) ?? existing?.timezone,
+    status: existing?.status ?? "pending",
+    created_at: existing?.created_at ?? new Date().toISOString(),
+  };
+  await saveApplicant(record, env);
+
+  return jsonResponse(record, existing ? 200 : 201);
+}
+
+// ---------------------------------------------------------------------------
+// Signed start links — HMAC-signed, expiring /start payloads
+// ---------------------------------------------------------------------------
+//
+// Payload = "s-" + base64url(body || mac), where body is:
+//   [0]        format: 1 = UUID token (16 raw bytes), 2 = UTF-8 token (length-prefixed)
+//   [..]       token
+//   [4 bytes]  expiry, unix seconds, big-endian
+//   [1 + n]    campaign code, length-prefixed UTF-8 (n may be 0)
+// and mac is the first SIGNED_LINK_MAC_BYTES of HMAC-SHA256(START_LINK_SECRET, body).
+// Telegram limits start parameters to 64 characters of [A-Za-z0-9_-].
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(text: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) return null;
+  try {
+    const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+async function signedLinkMac(body: Uint8Array, secret: string): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const mac = await crypto.subtle.sign("HMAC", key, body);
+  return new Uint8Array(mac).slice(0, SIGNED_LINK_MAC_BYTES);
+}
+
+/**
+ * Builds a signed start payload. Returns null if the token and campaign are
+ * too long to fit Telegram's start-parameter limit.
+ */
+async function mintStartPayload(
+  token: string,
+  campaign: string,
+  expiresAt: number, // unix seconds
+  secret: string,
+): Promise<string | null> {
+  const enc = new TextEncoder();
+  const campaignBytes = enc.encode(campaign);
+  const uuidHex = UUID_PATTERN.test(token) ? token.replace(/-/g, "") : null;
+
+  const parts: number[] = [];
+  if (uuidHex) {
+    parts.push(SIGNED_LINK_FORMAT_UUID);
+    for (let i = 0; i < 32; i += 2) parts.push(parseInt(uuidHex.slice(i, i + 2), 16));
+  } else {
+    const tokenBytes = enc.encode(token);
+    if (tokenBytes.length > 255) return null;
+    parts.push(SIGNED_LINK_FORMAT_TEXT, tokenBytes.length, ...tokenBytes);
+  }
+  parts.push((expiresAt >>> 24) & 0xff, (expiresAt >>> 16) & 0xff, (expiresAt >>> 8) & 0xff, expiresAt & 0xff);
+  if (campaignBytes.length > 255) return null;
+  parts.push(campaignBytes.length, ...campaignBytes);
+
+  const body = Uint8Array.from(parts);
+  const mac = await signedLinkMac(body, secret);
+  const blob = new Uint8Array(body.length + mac.length);
+  blob.set(body);
+  blob.set(mac, body.length);
+
+  const payload = SIGNED_LINK_PREFIX + base64UrlEncode(blob);
+  return payload.length <= TELEGRAM_START_PARAM_MAX ? payload : null;
+}
+
+/** Verifies a signed start payload. Never throws. */
+async function verifyStartPayload(payload: string, secret: string): Promise<SignedStartResult> {
+  const blob = base64UrlDecode(payload.slice(SIGNED_LINK_PREFIX.length));
+  if (!blob || blob.length <= SIGNED_LINK_MAC_BYTES) return { ok: false, error: "invalid" };
+
+  const body = blob.slice(0, blob.length - SIGNED_LINK_MAC_BYTES);
+  const mac = blob.slice(blob.length - SIGNED_LINK_MAC_BYTES);
+  const expected = await signedLinkMac(body, secret);
+  let diff = 0;
+  for (let i = 0; i < SIGNED_LINK_MAC_BYTES; i++) diff |= mac[i] ^ expected[i];
+  if (diff !== 0) return { ok: false, error: "invalid" };
+
+  // Authenticated from here on; bounds checks only guard against our own bugs
+  const dec = new TextDecoder();
+  let pos = 0;
+  let token: string;
+  const format = body[pos++];
+  if (format === SIGNED_LINK_FORMAT_UUID) {
+    if (body.length < pos + 16) return { ok: false, error: "invalid" };
+    const hex = Array.from(body.slice(pos, pos + 16), (b) => b.toString(16).padStart(2, "0")).join("");
+    token = `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+    pos += 16;
+  } else if (format === SIGNED_LINK_FORMAT_TEXT) {
+    const len = body[pos++];
+    if (body.length < pos + len) return { ok: false, error: "invalid" };
+    token = dec.decode(body.slice(pos, pos + len));
+    pos += len;
+  } else {
+    return { ok: false, error: "invalid" };
+  }
+
+  if (body.length < pos + 5) return { ok: false, error: "invalid" };
+  const expiresAt =
+    ((body[pos] << 24) | (body[pos + 1] << 16) | (body[pos + 2] << 8) | body[pos + 3]) >>> 0;
+  pos += 4;
+  const campaignLen = body[pos++];
+  if (body.length < pos + campaignLen) return { ok: false, error: "invalid" };
+  const campaign = dec.decode(body.slice(pos, pos + campaignLen));
+
+  if (expiresAt * 1000 < Date.now()) return { ok: false, error: "expired" };
+  return { ok: true, token, campaign: campaign || undefined, expires_at: expiresAt };
+}
+
+/**
+ * POST /admin/start-links — mints a signed start link for an applicant.
+ * Body: { applicant_token, campaign?, ttl_days? (at most 365) }
+ */
+async function handleMintStartLink(request: Request, env: Env): Promise<Response> {
+  if (!env.START_LINK_SECRET) {
+    return jsonResponse({ error: "START_LINK_SECRET is not configured" }, 501);
+  }
+
+  const body = await readJsonObject(request);
+  if (!body) {
+    return jsonResponse({ error: "invalid_json" }, 400);
+  }
+
+  const token = optionalString(body.applicant_token);
+  if (!token || token.length < 4) {
+    return jsonResponse({ error: "applicant_token must be a string of at least 4 characters" }, 400);
+  }
+  const campaign = optionalString(body.campaign) ?? "";
+  const ttlDays = typeof body.ttl_days === "number" && body.ttl_days > 0 ? body.ttl_days : SIGNED_LINK_DEFAULT_TTL_DAYS;
+  if (ttlDays > SIGNED_LINK_MAX_TTL_DAYS) {
+    return jsonResponse({ error: `ttl_days must be at most ${SIGNED_LINK_MAX_TTL_DAYS}` }, 400);
+  }
+  const expiresAt = Math.floor(Date.now() / 1000 + ttlDays * 24 * 60 * 60);
+
+  const payload = await mintStartPayload(token, campaign, expiresAt, env.START_LINK_SECRET);
+  if (!payload) {
+    return jsonResponse({ error: "applicant_token and campaign are too long for a Telegram start link" }, 400);
+  }
+
+  return jsonResponse({
+    start_payload: payload,
+    url: env.BOT_USERNAME ? `https://t.me/${env.BOT_USERNAME}?start=${payload}` : undefined,
+    expires_at: new Date(expiresAt * 1000).toISOString(),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Outbound notifications — messages Make sends to applicants via POST /notify
+// ---------------------------------------------------------------------------
+
+/**
+ * Structural check for a template read from KV. Returns an error description,
+ * or null if the template is usable.
+ */
+function validateNotifyTemplate(template: NotifyTemplate): string | null {
+  if (!template || typeof template.text !== "string" || !template.text.trim()) return "missing text";
+  if (template.buttons === undefined) return null;
+  if (!Array.isArray(template.buttons) || template.buttons.length > NOTIFY_MAX_BUTTONS) {
+    return `buttons must be an array of at most ${NOTIFY_MAX_BUTTONS}`;
+  }
+  for (const button of template.buttons) {
+    if (typeof button?.text !== "string" || !button.text.trim() || typeof button.url !== "string") {
+      return "each button needs text and url";
+    }
+  }
+  return null;
+}
+
+/** The named template from KV, else the built-in one. Returns null if neither exists or KV's is invalid. */
+async function loadNotifyTemplate(name: string, env: Env): Promise<NotifyTemplate | null> {
+  const raw = await env.BOT_KV.get(`${NOTIFY_TEMPLATE_KEY_PREFIX}${name}`);
+  if (!raw) return Object.hasOwn(NOTIFY_TEMPLATES, name) ? NOTIFY_TEMPLATES[name] : null;
+  try {
+    const template = JSON.parse(raw) as NotifyTemplate;
+    const error = validateNotifyTemplate(template);
+    if (!error) return template;
+    console.error(`Invalid notification template ${name}: ${error}`);
+  } catch (e) {
+    console.error(`Failed to parse notification template ${name}:`, e);
+  }
+  return null;
+}
+
+/**
+ * Pure function — fills in a template's placeholders. Fails when a
+ * placeholder has no variable or a button URL isn't https.
+ */
+function renderNotifyTemplate(
+  template: NotifyTemplate,
+  variables: Record<string, string>,
+): { ok: true; text: string; buttons: NotifyButton[] } | { ok: false; error: string } {
+  const missing = [...template.text.matchAll(NOTIFY_VARIABLE_PATTERN)]
+    .concat((template.buttons ?? []).flatMap((b) => [...`${b.text}${b.url}`.matchAll(NOTIFY_VARIABLE_PATTERN)]))
+    .map((m) => m[1])
+    .find((name) => !Object.hasOwn(variables, name));
+  if (missing) return { ok: false, error: `missing variable ${missing}` };
+
+  const fill = (text: string, encode: (value: string) => string) =>
+    text.replace(NOTIFY_VARIABLE_PATTERN, (_, name: string) => encode(variables[name]));
+  const buttons: NotifyButton[] = [];
+  for (const button of template.buttons ?? []) {
+    const url = fill(button.url, encodeURIComponent);
+    if (!/^https:\/\/[^\s/]+/.test(url)) {
+      return { ok: false, error: `button "${button.text}" needs an https url` };
+    }
+    buttons.push({ text: fill(button.text, (v) => v), url });
+  }
+  return { ok: true, text: fill(template.text, escapeHtml), buttons };
+}
+
+/** The applicant record a chat last screened with: its open session's, else its latest screening's. */
+async function loadChatApplicant(chatId: number, env: Env): Promise<ApplicantRecord | null> {
+  const session = await loadSession(chatId, env);
+  const token = session?.applicant_token ?? (await loadScreeningHistory(chatId, env)).at(-1)?.applicant_token;
+  return token ? loadApplicant(token, env) : null;
+}
+
+/**
+ * POST /notify — Make messages an applicant through the bot:
+ *   { applicant_token | chat_id, template, variables?: { name: value } }
+ * The chat comes from the applicant record's binding; {first_name} defaults
+ * to the record's (with chat_id, the record of the chat's last screening). Responds with status "sent" / "blocked" (the candidate
+ * blocked the bot) / "queued" (rate limited; the cron sends it) /
+ * "unknown_token" / "not_started" (the token was never used in Telegram) /
+ * "failed".
+ */
+async function handleNotify(request: Request, env: Env): Promise<Response> {
+  const body = await readJsonObject(request);
+  if (!body) {
+    return jsonResponse({ error: "invalid_json" }, 400);
+  }
+
+  const templateName = optionalString(body.template);
+  if (!templateName || !NOTIFY_TEMPLATE_NAME_PATTERN.test(templateName)) {
+    return jsonResponse({ error: "template must be a template name" }, 400);
+  }
+  const template = await loadNotifyTemplate(templateName, env);
+  if (!template) {
+    return jsonResponse({ error: `unknown template ${templateName}` }, 400);
+  }
+
+  const variables: Record<string, string> = {};
+  if (body.variables !== undefined) {
+    if (typeof body.variables !== "object" || body.variables === null || Array.isArray(body.variables)) {
+      return jsonResponse({ error: "variables must be an object" }, 400);
+    }
+    for (const [name, value] of Object.entries(body.variables)) {
+      if (typeof value !== "string" && typeof value !== "number") {
+        return jsonResponse({ error: `variable ${name} must be a string or number` }, 400);
+      }
+      variables[name] = String(value);
+    }
+  }
+
+  // Resolve the chat: the applicant record remembers the chat that used the token
+  const token = optionalString(body.applicant_token);
+  let chatId: number;
+  if (token) {
+    const applicant = await loadApplicant(token, env);
+    if (!applicant) {
+      return jsonResponse({ status: "unknown_token" satisfies NotifyStatus, applicant_token: token }, 404);
+    }
+    if (applicant.chat_id === undefined) {
+      return jsonResponse({ status: "not_started" satisfies NotifyStatus, applicant_token: token }, 404);
+    }
+    chatId = applicant.chat_id;
+    variables.first_name ??= applicant.first_name;
+  } else if (typeof body.chat_id === "number" && Number.isSafeInteger(body.chat_id) && body.chat_id > 0) {
+    chatId = body.chat_id;
+    if (variables.first_name === undefined) {
+      const applicant = await loadChatApplicant(chatId, env);
+      if (applicant) variables.first_name = applicant.first_name;
+    }
+  } else {
+    return jsonResponse({ error: "applicant_token or chat_id is required" }, 400);
+  }
+
+  const rendered = renderNotifyTemplate(template, variables);
+  if (!rendered.ok) {
+    return jsonResponse({ error: rendered.error }, 400);
+  }
+
+  const telegramBody: Record<string, unknown> = { chat_id: chatId, text: rendered.text, parse_mode: "HTML" };
+  if (rendered.buttons.length > 0) {
+    telegramBody.reply_markup = { inline_keyboard: rendered.buttons.map((b) => [b]) };
+  }
+  // No inline 429 retry here — Make would wait for the response; a rate-limited send is queued
+  const sent = await postTelegram("sendMessage", telegramBody, env);
+  if (sent.ok) {
+    const messageId = (sent.result as TelegramMessage).message_id;
+    return jsonResponse({ status: "sent" satisfies NotifyStatus, chat_id: chatId, message_id: messageId });
+  }
+  await settleTelegramError("sendMessage", telegramBody, sent.error, env);
+  // A 403 also closes any screening still open in the chat (see reportTelegramError)
+  if (sent.error.status === 403) {
+    return jsonResponse({ status: "blocked" satisfies NotifyStatus, chat_id: chatId });
+  }
+  if (sent.error.queued) {
+    return jsonResponse({ status: "queued" satisfies NotifyStatus, chat_id: chatId }, 202);
+  }
+  return jsonResponse({ status: "failed" satisfies NotifyStatus, chat_id: chatId, error: sent.error.description }, 502);
+}
+
+// ---------------------------------------------------------------------------
+// Update dedupe — Telegram may deliver the same update_id more than once.
+// Tracked in the chat's Durable Object (in KV when the binding isn't configured)
+// ---------------------------------------------------------------------------
+
+/**
+ * Records the update as processed. Returns false if it was already seen, in
+ * which case it must not be handled again. Atomic with the Durable Object.
+ * Best effort on the KV fallback: the get-then-put isn't atomic and KV is
+ * eventually consistent, so two deliveries arriving together can both pass.
+ * Answers are still applied once — commitSession only writes if the session
+ * is at the step the update answered.
+ */
+async function claimUpdate(chatId: number, updateId: number, env: Env): Promise<boolean> {
+  const stub = chatSessionStub(chatId, env);
+  if (stub) return stub.claimUpdate(updateId);
+
+  const key = `upd:${updateId}`;
+  if (await env.BOT_KV.get(key)) {
+    return false;
+  }
+  await env.BOT_KV.put(key, "1", { expirationTtl: PROCESSED_UPDATE_TTL_SECONDS });
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Rate limiting — per-chat sliding window in the chat's Durable Object
+// (stored in KV when the binding isn't configured)
+// ---------------------------------------------------------------------------
+
+async function checkRateLimit(chatId: number, env: Env): Promise<boolean> {
+  if (env.SIMULATION) return true; // scripted inputs arrive faster than anyone types
+
+  const stub = chatSessionStub(chatId, env);
+  if (stub) return stub.hitRateLimit();
+
+  const key = `rl:${chatId}`;
+  const now = Date.now();
+  let state: RateLimitState = { timestamps: [] };
+
+  const raw = await env.BOT_KV.get(key);
+  if (raw) {
+    try {
+      state = JSON.parse(raw) as RateLimitState;
+    } catch {
+      state = { timestamps: [] };
+    }
+  }
+
+  const recent = state.timestamps.filter((t) => now - t < RATE_LIMIT_WINDOW_MS);
+
+  if (recent.length >= RATE_LIMIT_MAX_ACTIONS) {
+    return false;
+  }
+
+  recent.push(now);
+  await env.BOT_KV.put(key, JSON.stringify({ timestamps: recent } satisfies RateLimitState), {
+    expirationTtl: RATE_LIMIT_TTL_SECONDS,
+  });
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Result outbox — durable, retried delivery of results to Make.com
+// ---------------------------------------------------------------------------
+
+/**
+ * Persists a result in the outbox. Must complete before the session is
+ * cleared so the result survives a Make outage or an early Worker teardown.
+ */
+async function enqueueResult(payload: MakePayload, env: Env): Promise<OutboxEntry> {
+  const entry: OutboxEntry = {
+    id: payload.idempotency_key,
+    payload,
+    attempts: 0,
+    next_attempt_at: Date.now(),
+    created_at: new Date().toISOString(),
+  };
+  await saveOutboxEntry(entry, env);
+  if (!("event" in payload)) {
+    await storeResult(payload, env);
+  }
+  return entry;
+}
+
+async function saveOutboxEntry(entry: OutboxEntry, env: Env): Promise<void> {
+  // next_attempt_at is mirrored into metadata so the cron sweep can skip
+  // entries that aren't due without reading each value.
+  await env.BOT_KV.put(`${OUTBOX_KEY_PREFIX}${entry.id}`, JSON.stringify(entry), {
+    metadata: { next_attempt_at: entry.next_attempt_at } satisfies OutboxMetadata,
+  });
+}
+
+async function loadOutboxEntry(key: string, env: Env): Promise<OutboxEntry | null> {
+  const raw = await env.BOT_KV.get(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as OutboxEntry;
+  } catch (e) {
+    console.error(`Failed to parse outbox entry ${key}:`, e);
+    return null;
+  }
+}
+
+/** Persists a result, then delivers it in the background (the cron sweep retries failures). */
+async function queueResult(payload: MakePayload, env: Env, ctx: BackgroundTasks): Promise<void> {
+  const entry = await enqueueResult(payload, env);
+  ctx.waitUntil(deliverOutboxEntry(entry, env));
+}
+
+/** Exponential backoff delay after the given number of failed attempts. */
+function outboxBackoffMs(attempts: number): number {
+  return Math.min(OUTBOX_BASE_BACKOFF_MS * 2 ** (attempts - 1), OUTBOX_MAX_BACKOFF_MS);
+}
+
+/**
+ * Attempts one delivery of an outbox entry. On success the entry is removed;
+ * on failure it is rescheduled, or moved to the dead-letter list once
+ * OUTBOX_MAX_ATTEMPTS is reached. Never throws.
+ */
+async function deliverOutboxEntry(entry: OutboxEntry, env: Env): Promise<boolean> {
+  let error: string;
+  try {
+    const resp = env.SIMULATION
+      ? recordSimulatedResult(entry.payload, env.SIMULATION)
+      : await fetch(env.MAKE_WEBHOOK_URL, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Idempotency-Key": entry.id,
+          },
+          body: JSON.stringify(entry.payload),
+        });
+    if (resp.ok) {
+      await env.BOT_KV.delete(`${OUTBOX_KEY_PREFIX}${entry.id}`);
+      return true;
+    }
+    error = `HTTP ${resp.status}: ${(await resp.text()).slice(0, 500)}`;
+  } catch (e) {
+    error = String(e);
+  }
+
+  entry.attempts += 1;
+  entry.last_error = error;
+  console.error(`Make.com delivery of ${entry.id} failed (attempt ${entry.attempts}):`, error);
+
+  try {
+    if (entry.attempts >= OUTBOX_MAX_ATTEMPTS) {
+      await env.BOT_KV.put(`${DEAD_LETTER_KEY_PREFIX}${entry.id}`, JSON.stringify(entry));
+      await env.BOT_KV.delete(`${OUTBOX_KEY_PREFIX}${entry.id}`);
+      console.error(`Result ${entry.id} moved to dead-letter list after ${entry.attempts} attempts`);
+    } else {
+      entry.next_attempt_at = Date.now() + outboxBackoffMs(entry.attempts);
+      await saveOutboxEntry(entry, env);
+    }
+  } catch (e) {
+    console.error(`Failed to reschedule outbox entry ${entry.id}:`, e);
+  }
+  return false;
+}
+
+/**
+ * Cron sweep — retries outbox entries whose backoff has elapsed, at most
+ * OUTBOX_BATCH_SIZE per call.
+ */
+async function processOutbox(env: Env): Promise<void> {
+  const now = Date.now();
+  let budget = OUTBOX_BATCH_SIZE;
+  let cursor: string | undefined;
+  do {
+    const page = await env.BOT_KV.list<OutboxMetadata>({ prefix: OUTBOX_KEY_PREFIX, cursor });
+    for (const key of page.keys) {
+      if (key.metadata && key.metadata.next_attempt_at > now) continue;
+      if (budget === 0) return;
+      budget -= 1;
+      const entry = await loadOutboxEntry(key.name, env);
+      if (entry) await deliverOutboxEntry(entry, env);
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+}
+
+async function listDeadLetters(env: Env): Promise<OutboxEntry[]> {
+  const entries: OutboxEntry[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await env.BOT_KV.list({ prefix: DEAD_LETTER_KEY_PREFIX, cursor });
+    for (const key of page.keys) {
+      const entry = await loadOutboxEntry(key.name, env);
+      if (entry) entries.push(entry);
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return entries;
+}
+
+/**
+ * Moves a dead-lettered result back into the outbox with a fresh attempt
+ * budget and tries to deliver it immediately. Returns null if no such entry.
+ */
+async function replayDeadLetter(id: string, env: Env): Promise<boolean | null> {
+  const entry = await loadOutboxEntry(`${DEAD_LETTER_KEY_PREFIX}${id}`, env);
+  if (!entry) return null;
+
+  entry.attempts = 0;
+  entry.next_attempt_at = Date.now();
+  delete entry.last_error;
+  await saveOutboxEntry(entry, env);
+  await env.BOT_KV.delete(`${DEAD_LETTER_KEY_PREFIX}${id}`);
+
+  return deliverOutboxEntry(entry, env);
+}
+
+// ---------------------------------------------------------------------------
+// Results store — every result kept in KV, for audits and Sheet rebuilds
+// ---------------------------------------------------------------------------
+
+/**
+ * Keeps a copy of a result; called by enqueueResult, so nothing depends on Make
+ * delivering it. An empty per-chat index key lets /borrar_datos find the chat's
+ * results without scanning the store.
+ */
+async function storeResult(payload: ResultPayload, env: Env): Promise<void> {
+  const metadata: StoredResultMetadata = {
+    chat_id: payload.telegram_chat_id,
+    applicant_token: payload.applicant_token,
+    result: payload.result,
+  };
+  if (payload.campaign) metadata.campaign = payload.campaign;
+  const recorded = `${new Date().toISOString()}:${payload.idempotency_key}`;
+  await env.BOT_KV.put(`${RESULT_KEY_PREFIX}${recorded}`, JSON.stringify(payload), { metadata });
+  await env.BOT_KV.put(`${RESULT_CHAT_INDEX_PREFIX}${payload.telegram_chat_id}:${recorded}`, "");
+}
+
+/** The recorded_at part of a result key, as epoch ms. */
+function storedResultTime(key: string): number {
+  return Date.parse(key.slice(RESULT_KEY_PREFIX.length, key.lastIndexOf(":")));
+}
+
+/**
+ * One page of the stored results recorded from `from` to `to` (YYYY-MM-DD,
+ * inclusive), oldest first, starting after the result key `after`. Keys are
+ * listed a month at a time and at most RESULTS_PAGE_SIZE payloads are read,
+ * so any range stays within the Workers subrequest limit. `next_cursor` is
+ * null once the range is exhausted.
+ */
+async function listStoredResults(
+  from: string,
+  to: string,
+  after: string | null,
+  matches: (metadata: StoredResultMetadata) => boolean,
+  env: Env,
+): Promise<{ results: ResultPayload[]; next_cursor: string | null }> {
+  const first = `${RESULT_KEY_PREFIX}${from}`;
+  const start = after !== null && after > first ? after : first;
+  const end = `${RESULT_KEY_PREFIX}${to}T\uffff`;
+
+  const keys: string[] = [];
+  let month = start.slice(RESULT_KEY_PREFIX.length, RESULT_KEY_PREFIX.length + 7);
+  let full = false;
+  while (!full && month <= to.slice(0, 7)) {
+    let cursor: string | undefined;
+    do {
+      const page = await env.BOT_KV.list<StoredResultMetadata>({ prefix: `${RESULT_KEY_PREFIX}${month}`, cursor });
+      for (const key of page.keys) {
+        if (key.name <= start || key.name > end) continue;
+        if (key.metadata && !matches(key.metadata)) continue;
+        keys.push(key.name);
+        if (keys.length === RESULTS_PAGE_SIZE) break;
+      }
+      full = keys.length === RESULTS_PAGE_SIZE;
+      cursor = full || page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    const [year, monthIndex] = month.split("-").map(Number);
+    month = new Date(Date.UTC(year, monthIndex, 1)).toISOString().slice(0, 7);
+  }
+
+  const results: ResultPayload[] = [];
+  for (const key of keys) {
+    const raw = await env.BOT_KV.get(key);
+    if (!raw) continue;
+    try {
+      results.push(JSON.parse(raw) as ResultPayload);
+    } catch (e) {
+      console.error(`Failed to parse stored result ${key}:`, e);
+    }
+  }
+  return { results, next_cursor: full ? keys[keys.length - 1] : null };
+}
+
+/** Deletes a chat's stored results through its index. Returns their idempotency keys. */
+async function deleteStoredResults(chatId: number, env: Env): Promise<string[]> {
+  const prefix = `${RESULT_CHAT_INDEX_PREFIX}${chatId}:`;
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await env.BOT_KV.list({ prefix, cursor });
+    for (const key of page.keys) {
+      const recorded = key.name.slice(prefix.length);
+      await env.BOT_KV.delete(`${RESULT_KEY_PREFIX}${recorded}`);
+      await env.BOT_KV.delete(key.name);
+      ids.push(recorded.slice(recorded.lastIndexOf(":") + 1));
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return ids;
+}
+
+/** One CSV cell per answer: option values joined by "; ", the phone number or the recording's file_id. */
+function csvAnswer(value: AnswerValue | undefined): string {
+  if (value === undefined) return "";
+  if (Array.isArray(value)) return value.join("; ");
+  if (typeof value === "object") return "phone_number" in value ? value.phone_number : value.file_id;
+  return String(value);
+}
+
+/** One row per result, with a column per answer_key seen in any of them. */
+function resultsCsv(results: ResultPayload[]): string {
+  const answerKeys = [...new Set(results.flatMap((r) => Object.keys(r.answers)))];
+  const columns = [
+    "completed_at",
+    "applicant_token",
+    "first_name",
+    "email",
+    "phone",
+    "campaign",
+    "telegram_chat_id",
+    "telegram_username",
+    "result",
+    "update",
+    "score",
+    "failed_step",
+    "last_step",
+    "recruiter",
+    "interview_starts_at",
+    "flow_version",
+    "idempotency_key",
+  ];
+  const lines = [[...columns, ...answerKeys].map(csvField).join(",")];
+  for (const r of results) {
+    const row: Array<string | number | null> = [
+      r.completed_at,
+      r.applicant_token,
+      r.first_name ?? null,
+      r.email ?? null,
+      r.phone ?? null,
+      r.campaign ?? null,
+      r.telegram_chat_id,
+      r.telegram_username ?? null,
+      r.result,
+      r.update ?? null,
+      r.score ?? null,
+      r.failed_step ?? null,
+      r.last_step ?? null,
+      r.recruiter?.name ?? null,
+      r.interview?.starts_at ?? null,
+      r.flow_version,
+      r.idempotency_key,
+      ...answerKeys.map((k) => csvAnswer(r.answers[k])),
+    ];
+    lines.push(row.map(csvField).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * GET /admin/results and /admin/results.csv
+ *   ?from=YYYY-MM-DD&to=YYYY-MM-DD&result=<r>&campaign=<c>&applicant_token=<t>&cursor=<c>
+ * Defaults to the last 30 days; the dates are when each result was recorded.
+ * Paged: pass back next_cursor (the X-Next-Cursor header for CSV) until it is null.
+ */
+async function handleAdminResults(url: URL, env: Env): Promise<Response> {
+  const range = parseDayRange(url, RESULTS_DEFAULT_RANGE_DAYS, RESULTS_MAX_RANGE_DAYS);
+  if (!range.ok) {
+    return jsonResponse({ error: range.error }, 400);
+  }
+  const { from, to } = range;
+  const result = url.searchParams.get("result");
+  const campaign = url.searchParams.get("campaign");
+  const token = url.searchParams.get("applicant_token");
+  const cursor = url.searchParams.get("cursor");
+  if (cursor !== null && !cursor.startsWith(RESULT_KEY_PREFIX)) {
+    return jsonResponse({ error: "cursor must be a next_cursor from a previous page" }, 400);
+  }
+
+  const { results, next_cursor } = await listStoredResults(
+    from,
+    to,
+    cursor,
+    (m) =>
+      (result === null || m.result === result) &&
+      (campaign === null || (m.campaign ?? "") === campaign) &&
+      (token === null || m.applicant_token === token),
+    env,
+  );
+
+  if (url.pathname.endsWith(".csv")) {
+    const headers: Record<string, string> = {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="results-${from}-${to}.csv"`,
+    };
+    if (next_cursor) headers["X-Next-Cursor"] = next_cursor;
+    return new Response(resultsCsv(results), { headers });
+  }
+  return jsonResponse({
+    from,
+    to,
+    result,
+    campaign,
+    applicant_token: token,
+    count: results.length,
+    next_cursor,
+    results,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Telegram API wrappers
+// ---------------------------------------------------------------------------
+
+const TG_API_BASE = "https://api.telegram.org/bot";
+
+/**
+ * POSTs a Bot API method. A 429 is retried after Telegram's retry_after when
+ * that is short; a longer one hands the call to the KV retry queue, which the
+ * cron drains. A 403 from a private chat means the candidate blocked the bot,
+ * so their screening is closed and reported as "blocked". Failures are logged
+ * and returned as a TelegramError. During a /admin/simulate run the call is
+ * only recorded.
+ */
+async function callTelegram(method: string, body: Record<string, unknown>, env: Env): Promise<TelegramResult> {
+  if (env.SIMULATION) {
+    return recordSimulatedCall(method, body, env.SIMULATION);
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    const sent = await postTelegram(method, body, env);
+    if (sent.ok) return sent;
+
+    const { error } = sent;
+    if (
+      error.status === 429 &&
+      attempt < TELEGRAM_MAX_ATTEMPTS &&
+      error.retry_after !== undefined &&
+      error.retry_after <= TELEGRAM_MAX_RETRY_AFTER_SECONDS
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, error.retry_after! * 1000));
+      continue;
+    }
+
+    await settleTelegramError(method, body, error, env);
+    return sent;
+  }
+}
+
+/**
+ * Handles a call that won't be retried inline: a rate-limited call of a
+ * queued method goes to the retry queue, then the error is reported.
+ */
+async function settleTelegramError(
+  method: string,
+  body: Record<string, unknown>,
+  error: TelegramError,
+  env: Env,
+): Promise<void> {
+  if (error.status === 429 && TELEGRAM_QUEUED_METHODS.has(method)) {
+    error.queued = await queueTelegramRetry(method, body, error.retry_after, env);
+  }
+  await reportTelegramError(error, env);
+}
+
+/** One Bot API request, without retries. */
+async function postTelegram(method: string, body: Record<string, unknown>, env: Env): Promise<TelegramResult> {
+  const chatId = body.chat_id as number | string | undefined;
+  try {
+    const resp = await fetch(`${TG_API_BASE}${env.BOT_TOKEN}/${method}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const reply = (await resp.json().catch(() => null)) as TelegramReply | null;
+    if (resp.ok && reply?.ok) {
+      return { ok: true, result: reply.result };
+    }
+    return {
+      ok: false,
+      error: {
+        method,
+        chat_id: chatId,
+        status: reply?.error_code ?? resp.status,
+        description: reply?.description ?? `HTTP ${resp.status}`,
+        retry_after: reply?.parameters?.retry_after,
+      },
+    };
+  } catch (e) {
+    return { ok: false, error: { method, chat_id: chatId, status: 0, description: String(e) } };
+  }
+}
+
+/** Logs a failed call; a 403 from a private chat closes that candidate's screening as "blocked". */
+async function reportTelegramError(error: TelegramError, env: Env): Promise<void> {
+  console.error("Telegram API call failed:", JSON.stringify(error));
+  if (error.status === 403 && typeof error.chat_id === "number" && error.chat_id > 0) {
+    await reportBlocked(error.chat_id, env);
+  }
+}
+
+/** Stores a rate-limited call for the cron to make once retry_after has passed. Returns false if it couldn't. */
+async function queueTelegramRetry(
+  method: string,
+  body: Record<string, unknown>,
+  retryAfter: number | undefined,
+  env: Env,
+): Promise<boolean> {
+  const retry: TelegramRetry = { method, body, attempts: 0, next_attempt_at: Date.now() + (retryAfter ?? 0) * 1000 };
+  try {
+    await env.BOT_KV.put(`${TELEGRAM_RETRY_KEY_PREFIX}${Date.now()}:${crypto.randomUUID()}`, JSON.stringify(retry), {
+      metadata: { next_attempt_at: retry.next_attempt_at } satisfies OutboxMetadata,
+    });
+    return true;
+  } catch (e) {
+    console.error(`Failed to queue ${method} for retry:`, e);
+    return false;
+  }
+}
+
+/**
+ * Cron sweep — makes the queued calls whose retry_after has passed, oldest
+ * first, at most TELEGRAM_RETRY_BATCH_SIZE per call. Another 429 reschedules
+ * the call and ends the sweep, since Telegram is still throttling the bot;
+ * other failures are reported and dropped.
+ */
+async function processTelegramRetries(env: Env): Promise<void> {
+  const now = Date.now();
+  let budget = TELEGRAM_RETRY_BATCH_SIZE;
+  let cursor: string | undefined;
+  do {
+    const page = await env.BOT_KV.list<OutboxMetadata>({ prefix: TELEGRAM_RETRY_KEY_PREFIX, cursor });
+    for (const key of page.keys) {
+      if (key.metadata && key.metadata.next_attempt_at > now) continue;
+      if (budget === 0) return;
+      budget -= 1;
+      const raw = await env.BOT_KV.get(key.name);
+      if (!raw) continue;
+      let retry: TelegramRetry;
+      try {
+        retry = JSON.parse(raw) as TelegramRetry;
+      } catch (e) {
+        console.error(`Failed to parse queued Telegram call ${key.name}:`, e);
+        await env.BOT_KV.delete(key.name);
+        continue;
+      }
+
+      const sent = await postTelegram(retry.method, retry.body, env);
+      retry.attempts += 1;
+      if (!sent.ok && sent.error.status === 429 && retry.attempts < TELEGRAM_RETRY_MAX_ATTEMPTS) {
+        retry.next_attempt_at = Date.now() + (sent.error.retry_after ?? 0) * 1000;
+        await env.BOT_KV.put(key.name, JSON.stringify(retry), {
+          metadata: { next_attempt_at: retry.next_attempt_at } satisfies OutboxMetadata,
+        });
+        return;
+      }
+      await env.BOT_KV.delete(key.name);
+      if (!sent.ok) await reportTelegramError(sent.error, env);
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+}
+
+async function sendMessage(
+  chatId: number,
+  text: string,
+  replyMarkup: object | null,
+  env: Env,
+): Promise<SentMessage> {
+  const body: Record<string, unknown> = {
+    chat_id: chatId,
+    text,
+    parse_mode: "HTML",
+  };
+  if (replyMarkup) {
+    body.reply_markup = replyMarkup;
+  }
+
+  const sent = await callTelegram("sendMessage", body, env);
+  if (!sent.ok) return sent;
+
+  // Returns the sent message's id so callers can edit it later
+  return { ok: true, message_id: (sent.result as TelegramMessage).message_id };
+}
+
+async function editMessageText(
+  chatId: number,
+  messageId: number,
+  text: string,
+  replyMarkup: object | null,
+  env: Env,
+): Promise<TelegramResult> {
+  const body: Record<string, unknown> = {
+    chat_id: chatId,
+    message_id: messageId,
+    text,
+    parse_mode: "HTML",
+  };
+  if (replyMarkup) {
+    body.reply_markup = replyMarkup;
+  }
+
+  return callTelegram("editMessageText", body, env);
+}
+
+async function editMessageReplyMarkup(
+  chatId: number,
+  messageId: number,
+  replyMarkup: object | null, // null removes the inline keyboard
+  env: Env,
+): Promise<TelegramResult> {
+  const body: Record<string, unknown> = {
+    chat_id: chatId,
+    message_id: messageId,
+    reply_markup: replyMarkup ?? { inline_keyboard: [] },
+  };
+
+  return callTelegram("editMessageReplyMarkup", body, env);
+}
+
+const MEDIA_SEND_METHODS: Record<MediaKind, string> = {
+  voice: "sendVoice",
+  video_note: "sendVideoNote",
+  video: "sendVideo",
+};
+
+/** Re-sends a recorded sample by file_id, optionally as a reply to another message. */
+async function sendMedia(
+  chatId: number,
+  media: MediaAnswer,
+  replyToMessageId: number | undefined,
+  env: Env,
+): Promise<TelegramResult> {
+  const body: Record<string, unknown> = {
+    chat_id: chatId,
+    [media.kind]: media.file_id,
+  };
+  if (replyToMessageId !== undefined) {
+    body.reply_parameters = { message_id: replyToMessageId, allow_sending_without_reply: true };
+  }
+
+  return callTelegram(MEDIA_SEND_METHODS[media.kind], body, env);
+}
+
+async function answerCallbackQuery(
+  callbackQueryId: string,
+  env: Env,
+  text?: string,
+): Promise<TelegramResult> {
+  const body: Record<string, unknown> = { callback_query_id: callbackQueryId };
+  if (text) {
+    body.text = text;
+    body.show_alert = false;
+  }
+
+  return callTelegram("answerCallbackQuery", body, env);
+}
+
+// ---------------------------------------------------------------------------
+// Conversation helpers
+// ---------------------------------------------------------------------------
+
+function questionLabel(question: FlowQuestion): string {
+  return question.summary_label ?? question.answer_key;
+}
+
+function isMediaAnswer(value: AnswerValue | undefined): value is MediaAnswer {
+  return typeof value === "object" && !Array.isArray(value) && "file_id" in value;
+}
+
+/** The option values (or the single typed value) an answer is made of. */
+function answerValues(value: AnswerValue): string[] {
+  if (Array.isArray(value)) return value;
+  if (isMediaAnswer(value)) return [value.kind];
+  if (typeof value === "object") return [value.phone_number];
+  return [String(value)];
+}
+
+/** Human-readable answer: the chosen options' labels, else the raw value. */
+function answerLabel(question: FlowQuestion, value: AnswerValue): string {
+  if (isMediaAnswer(value)) return `${MEDIA_KIND_LABELS[value.kind]} (${value.duration_seconds} s)`;
+  const labels = answerValues(value).map((v) => {
+    const option = question.options?.find((opt) => opt.value === v);
+    // Drop the "1) " numbering used on the buttons
+    return option ? option.text.replace(/^\d+\)\s*/, "") : v;
+  });
+  return labels.length > 0 ? labels.join(", ") : "—";
+}
+
+/**
+ * Keyboard for a question: inline buttons (options, "Listo", "Atrás"), or a
+ * reply keyboard with Telegram's contact request for "contact" questions.
+ */
+function questionKeyboard(question: FlowQuestion, showBack: boolean, selection: string[]): object | null {
+  if (question.input === "contact") {
+    const keyboard: Array<Array<{ text: string; request_contact?: boolean }>> = [
+      [{ text: CONTACT_BUTTON_TEXT, request_contact: true }],
+    ];
+    if (showBack) keyboard.push([{ text: CONTACT_BACK_TEXT }]);
+    return { keyboard, resize_keyboard: true };
+  }
+
+  const rows: Array<Array<{ text: string; callback_data: string }>> = [];
+  if (question.input === "choice") {
+    rows.push(...(question.options ?? []).map((opt) => [{ text: opt.text, callback_data: opt.data }]));
+  } else if (question.input === "multi_select") {
+    rows.push(
+      ...(question.options ?? []).map((opt) => [
+        { text: `${selection.includes(opt.value) ? "✅" : "⬜"} ${opt.text}`, callback_data: opt.data },
+      ]),
+      [{ text: "👌 Listo", callback_data: `${DONE_CALLBACK_PREFIX}${question.id}` }],
+    );
+  } // other inputs are answered by typing (or recording)
+  if (showBack) {
+    rows.push([{ text: "⬅️ Atrás", callback_data: `${BACK_CALLBACK_PREFIX}${question.id}` }]);
+  }
+  return rows.length > 0 ? { inline_keyboard: rows } : null;
+}
+
+async function sendQuestion(
+  chatId: number,
+  question: FlowQuestion,
+  showBack: boolean, // "⬅️ Atrás" — every question except the first
+  env: Env,
+  selection: string[] = [], // ticked options of a "multi_select" question
+): Promise<SentMessage> {
+  return sendMessage(chatId, question.text, questionKeyboard(question, showBack, selection), env);
+}
+
+/**
+ * Pure function — parses a typed answer (or a shared contact or recording)
+ * for the current question. Returns the answer, the error message to send
+ * back, or null if the question is answered with inline buttons.
+ */
+function parseTypedAnswer(
+  question: FlowQuestion,
+  message: TelegramMessage,
+  from: TelegramUser,
+): { value: AnswerValue } | { error: string } | null {
+  const text = (message.text ?? "").trim();
+  switch (question.input) {
+    case "number": {
+      const parsed = parseInt(text, 10);
+      const { min, max, error_message } = question.validation!;
+      if (isNaN(parsed) || (min !== undefined && parsed < min) || (max !== undefined && parsed > max)) {
+        return { error: error_message };
+      }
+      return { value: parsed };
+    }
+
+    case "text": {
+      const { min_length, max_length, pattern, error_message } = question.validation!;
+      if (
+        !text ||
+        (min_length !== undefined && text.length < min_length) ||
+        (max_length !== undefined && text.length > max_length) ||
+        (pattern !== undefined && !new RegExp(`^(?:${pattern})$`, "u").test(text))
+      ) {
+        return { error: error_message };
+      }
+      return { value: text };
+    }
+
+    case "email": {
+      const email = text.toLowerCase();
+      if (email.length > EMAIL_MAX_LENGTH || !EMAIL_PATTERN.test(email)) {
+        return {
+          error: question.validation?.error_message ?? "📧 Por favor escribe un correo válido (ej: nombre@correo.com).",
+        };
+      }
+      return { value: email };
+    }
+
+    case "contact":
+      // Only the candidate's own contact counts — typed or forwarded numbers aren't verified
+      if (!message.contact || message.contact.user_id !== from.id) {
+        return { error: `📱 Por favor toca el botón <b>${CONTACT_BUTTON_TEXT}</b> para enviarnos tu número.` };
+      }
+      return {
+        value: {
+          phone_number: message.contact.phone_number.startsWith("+")
+            ? message.contact.phone_number
+            : `+${message.contact.phone_number}`,
+          telegram_user_id: from.id,
+        },
+      };
+
+    case "media": {
+      const kinds = question.media_kinds ?? DEFAULT_MEDIA_KINDS;
+      const kind = kinds.find((k) => message[k] !== undefined);
+      if (!kind) {
+        const accepted = kinds.map((k) => `<b>${MEDIA_KIND_LABELS[k]}</b>`).join(" o ");
+        return { error: `👆 Para esta pregunta envía: ${accepted}.` };
+      }
+      const media = message[kind]!;
+      // validateFlow requires error_message whenever a validation (duration range) is set
+      if (question.validation) {
+        const { min, max, error_message } = question.validation;
+        if ((min !== undefined && media.duration < min) || (max !== undefined && media.duration > max)) {
+          return { error: error_message };
+        }
+      }
+      return {
+        value: {
+          kind,
+          file_id: media.file_id,
+          file_unique_id: media.file_unique_id,
+          duration_seconds: media.duration,
+        },
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Pure function — checks the question's fail rules (or only its knock-out
+ * rules) against the given answer.
+ * Returns the user-facing Spanish failure message, or null if the answer passes.
+ */
+function checkFailCondition(
+  question: FlowQuestion,
+  value: AnswerValue,
+  numericValue: number | undefined,
+  minWeeklyHours: number,
+  knockoutsOnly: boolean,
+): string | null {
+  for (const rule of question.fail_rules ?? []) {
+    if (knockoutsOnly && !rule.knockout) continue;
+    switch (rule.kind) {
+      case "equals":
+        if (answerValues(value).some((v) => rule.values.includes(v))) return rule.message;
+        break;
+
+      case "less_than": {
+        const threshold = rule.threshold === "min_weekly_hours" ? minWeeklyHours : rule.threshold;
+        if ((numericValue ?? 0) < threshold) {
+          return rule.message.replaceAll("{threshold}", String(threshold));
+        }
+        break;
+      }
+
+      case "at_least":
+        if (numericValue !== undefined && numericValue >= rule.threshold) {
+          return rule.message.replaceAll("{threshold}", String(rule.threshold));
+        }
+        break;
+    }
+  }
+  return null;
+}
+
+/** Pure function — points per answer_key and their total. */
+function scoreAnswers(flow: FlowDefinition, answers: Answers): { total: number; breakdown: Record<string, number> } {
+  const breakdown: Record<string, number> = {};
+  let total = 0;
+  for (const question of flow.questions) {
+    const value = answers[question.answer_key];
+    if (value === undefined) continue;
+
+    let points = 0;
+    if (typeof value === "number") {
+      const range = question.points_ranges?.find(
+        (r) => (r.min === undefined || value >= r.min) && (r.max === undefined || value <= r.max),
+      );
+      points = range?.points ?? 0;
+    } else {
+      const values = answerValues(value);
+      for (const opt of question.options ?? []) {
+        if (values.includes(opt.value)) points += opt.points ?? 0;
+      }
+    }
+    breakdown[question.answer_key] = points;
+    total += points;
+  }
+  return { total, breakdown };
+}
+
+/** Pure function — the tier a score falls into. Flows without scoring pass everyone. */
+function resolveTier(flow: FlowDefinition, score: number): OutcomeTier {
+  if (!flow.scoring) return "pass";
+  const tiers = [...flow.scoring.tiers].sort((a, b) => b.min_score - a.min_score);
+  return tiers.find((t) => score >= t.min_score)?.id ?? "fail";
+}
+
+/** Candidate-facing message for a tier — the flow's override, else TIER_DEFAULTS. */
+function tierMessage(flow: FlowDefinition, tier: OutcomeTier): string {
+  return flow.scoring?.tiers.find((t) => t.id === tier)?.message ?? TIER_DEFAULTS[tier].message;
+}
+
+/**
+ * Sends the UI for the session's current step (question or review screen)
+ * and remembers its message id so it can be edited once answered.
+ */
+async function presentStep(
+  chatId: number,
+  state: SessionState,
+  flow: FlowDefinition,
+  env: Env,
+): Promise<void> {
+  delete state.selection;
+  delete state.reply_keyboard;
+
+  let sent: SentMessage;
+  if (state.step === REVIEW_STEP) {
+    sent = await sendReviewScreen(chatId, state, flow, env);
+  } else if (state.step === CONSENT_STEP) {
+    sent = await sendConsentScreen(chatId, env);
+  } else {
+    const index = flow.questions.findIndex((q) => q.id === state.step);
+    if (index === -1) {
+      console.error("Unknown step in session state:", state.step, "flow version:", flow.version);
+      return;
+    }
+    const question = flow.questions[index];
+    // Re-opening a multi-select (Atrás / Editar) starts from the saved answer
+    if (question.input === "multi_select") {
+      const saved = state.answers[question.answer_key];
+      state.selection = saved === undefined ? [] : answerValues(saved);
+    }
+    sent = await sendQuestion(chatId, question, index > 0 || !!state.editing, env, state.selection);
+    if (question.input === "contact") state.reply_keyboard = true;
+  }
+  logEvent(state, "shown", state.step);
+  await trackActiveMessage(chatId, state, sent, env);
+}
+
+/** Appends to the session's event log; it is saved with the next session write. */
+function logEvent(state: SessionState, type: SessionEventType, step?: StepId): void {
+  const events = (state.events ??= []);
+  if (events.length >= SESSION_EVENT_LIMIT) events.splice(1, events.length - SESSION_EVENT_LIMIT + 1);
+  events.push(step === undefined ? { at: Date.now(), type } : { at: Date.now(), type, step });
+}
+
+/** Logs input the current step rejected. */
+async function logInvalidInput(chatId: number, state: SessionState, env: Env): Promise<void> {
+  logEvent(state, "invalid", state.step);
+  await commitSession(chatId, state.step, state, env);
+}
+
+/** Logs a throttled message or tap — once per burst, so throttling doesn't add writes. */
+async function logRateLimited(chatId: number, env: Env): Promise<void> {
+  const state = await loadSession(chatId, env);
+  if (!state || state.step === COMPLETED_STEP || state.events?.at(-1)?.type === "rate_limited") return;
+  logEvent(state, "rate_limited", state.step);
+  await commitSession(chatId, state.step, state, env);
+}
+
+/**
+ * Pure function — the session's event log in the compact form sent to Make,
+ * plus how long each step was on screen. A step's time runs from "shown" to
+ * the next event that moves the candidate on (invalid input, throttling and
+ * reminders don't).
+ */
+function summarizeTimeline(
+  state: SessionState,
+  completedAt: number, // epoch ms
+): Pick<ResultPayload, "started_at" | "timeline" | "question_seconds" | "completion_seconds"> {
+  const events = state.events ?? [];
+  const startedAt = events[0]?.at ?? Date.parse(state.started_at);
+  const seconds = (ms: number) => Math.round(ms / 100) / 10;
+
+  const onScreenMs: Record<StepId, number> = {};
+  let shown: SessionEvent | undefined;
+  const closeShown = (at: number) => {
+    if (shown?.step !== undefined) onScreenMs[shown.step] = (onScreenMs[shown.step] ?? 0) + at - shown.at;
+  };
+  for (const event of events) {
+    if (event.type === "invalid" || event.type === "rate_limited" || event.type === "reminded") continue;
+    closeShown(event.at);
+    shown = event.type === "shown" ? event : undefined;
+  }
+  closeShown(completedAt); // still on screen when abandoned
+
+  return {
+    started_at: new Date(startedAt).toISOString(),
+    timeline: events.map((e) => {
+      const entry: TimelineEntry = { t: seconds(e.at - startedAt), event: e.type };
+      if (e.step !== undefined) entry.step = e.step;
+      return entry;
+    }),
+    question_seconds: Object.fromEntries(Object.entries(onScreenMs).map(([step, ms]) => [step, seconds(ms)])),
+    completion_seconds: seconds(completedAt - startedAt),
+  };
+}
+
+async function trackActiveMessage(
+  chatId: number,
+  state: SessionState,
+  sent: SentMessage,
+  env: Env,
+): Promise<void> {
+  if (!sent.ok) return;
+  state.question_message_id = sent.message_id;
+  await commitSession(chatId, state.step, state, env);
+}
+
+/**
+ * Takes the keyboard off the session's active message so old buttons can't
+ * be tapped. With `answeredText`, the message text is replaced too; if that
+ * edit fails (message too old or deleted) the text is sent as a new message.
+ * Reply keyboards (contact requests) can't be edited, so they are removed by
+ * sending a new message instead.
+ */
+async function retireActiveMessage(
+  chatId: number,
+  state: SessionState,
+  env: Env,
+  answeredText?: string,
+): Promise<void> {
+  const messageId = state.question_message_id;
+  const replyKeyboard = state.reply_keyboard;
+  delete state.question_message_id;
+  delete state.reply_keyboard;
+
+  if (replyKeyboard) {
+    await sendMessage(chatId, answeredText ?? "👌", { remove_keyboard: true }, env);
+    return;
+  }
+  if (answeredText) {
+    const edited = messageId !== undefined ? await editMessageText(chatId, messageId, answeredText, null, env) : null;
+    // A queued edit still lands; resending would show the answer twice
+    if (!edited?.ok && !edited?.error.queued) {
+      await sendMessage(chatId, answeredText, null, env);
+    }
+    return;
+  }
+  if (messageId !== undefined) {
+    await editMessageReplyMarkup(chatId, messageId, null, env);
+  }
+}
+
+/** The question as it reads once answered: original text plus the chosen answer. */
+function answeredQuestionText(question: FlowQuestion, value: AnswerValue): string {
+  return `${question.text}\n\n✅ <i>${escapeHtml(answerLabel(question, value))}</i>`;
+}
+
+/**
+ * Records an answer for the current question and moves on: to the next
+ * question, or to the review screen after the last question (or after
+ * re-answering a question picked from "Editar").
+ */
+async function applyAnswer(
+  state: SessionState,
+  flow: FlowDefinition,
+  stepIndex: number,
+  value: AnswerValue,
+  chatId: number,
+  from: TelegramUser,
+  env: Env,
+  ctx: BackgroundTasks,
+): Promise<void> {
+  const question = flow.questions[stepIndex];
+  const answeredStep = state.step;
+  const answeredState = { ...state };
+  state.answers[question.answer_key] = value;
+  state.last_activity_at = new Date().toISOString();
+  logEvent(state, "answered", answeredStep);
+
+  // Knock-outs end the flow right away, without the review screen
+  const threshold = minWeeklyHours(await loadCampaign(state.campaign, env), env);
+  const knockout = checkFailCondition(question, value, numericAnswer(question, value), threshold, true);
+
+  const nextQuestion = state.editing || knockout ? undefined : flow.questions[stepIndex + 1];
+  state.step = knockout ? COMPLETED_STEP : (nextQuestion?.id ?? REVIEW_STEP);
+
+  // Funnel reach counts each step once per session, however often Atrás is used
+  const reachedIndex = nextQuestion ? stepIndex + 1 : flow.questions.length;
+  const newlyReached = !knockout && reachedIndex > (state.furthest_step ?? 0);
+  if (newlyReached) state.furthest_step = reachedIndex;
+
+  delete state.editing;
+  delete state.selection;
+  delete state.reply_keyboard;
+  delete state.question_message_id;
+
+  // Compare-and-set on the answered step — a concurrent duplicate (e.g. a
+  // double-tapped button) loses here and neither records nor sends anything
+  if (!(await commitSession(chatId, answeredStep, state, env))) {
+    return;
+  }
+
+  if (newlyReached) {
+    ctx.waitUntil(recordMetrics([`reached:${state.step}`], state.campaign, env));
+  }
+
+  await retireActiveMessage(chatId, answeredState, env, answeredQuestionText(question, value));
+  if (knockout) {
+    await reportResult("fail", knockout, question.id, state, flow, chatId, from, env, ctx);
+    return;
+  }
+  await presentStep(chatId, state, flow, env);
+}
+
+/**
+ * A tap on a "multi_select" question: option buttons toggle their tick in
+ * place, "Listo" records the ticked options as the answer.
+ */
+async function handleMultiSelect(
+  data: string,
+  state: SessionState,
+  flow: FlowDefinition,
+  stepIndex: number,
+  chatId: number,
+  from: TelegramUser,
+  env: Env,
+  ctx: BackgroundTasks,
+): Promise<void> {
+  const question = flow.questions[stepIndex];
+  const selection = state.selection ?? [];
+
+  if (data === `${DONE_CALLBACK_PREFIX}${question.id}`) {
+    const validation = question.validation;
+    if (
+      validation &&
+      ((validation.min !== undefined && selection.length < validation.min) ||
+        (validation.max !== undefined && selection.length > validation.max))
+    ) {
+      await logInvalidInput(chatId, state, env);
+      await sendMessage(chatId, validation.error_message, null, env);
+      return;
+    }
+    // Stored in the flow's option order, not the order they were ticked
+    const values = (question.options ?? []).map((opt) => opt.value).filter((v) => selection.includes(v));
+    await applyAnswer(state, flow, stepIndex, values, chatId, from, env, ctx);
+    return;
+  }
+
+  const option = question.options?.find((opt) => opt.data === data);
+  const messageId = state.question_message_id;
+  if (!option || messageId === undefined) {
+    return; // silently ignore stale button
+  }
+  state.selection = selection.includes(option.value)
+    ? selection.filter((v) => v !== option.value)
+    : [...selection, option.value];
+  if (await commitSession(chatId, state.step, state, env)) {
+    const keyboard = questionKeyboard(question, stepIndex > 0 || !!state.editing, state.selection);
+    await editMessageReplyMarkup(chatId, messageId, keyboard, env);
+  }
+}
+
+/**
+ * Numeric value used by threshold rules: the parsed number, the chosen
+ * option's `numeric`, or the sum of the ticked options' `numeric`.
+ */
+function numericAnswer(question: FlowQuestion, value: AnswerValue): number | undefined {
+  if (typeof value === "number") return value;
+  const values = answerValues(value);
+  const numbers = (question.options ?? [])
+    .filter((opt) => values.includes(opt.value) && opt.numeric !== undefined)
+    .map((opt) => opt.numeric!);
+  return numbers.length > 0 ? numbers.reduce((sum, n) => sum + n, 0) : undefined;
+}
+
+/** Sends the summary of all answers with "Confirmar" / "Editar" buttons. */
+async function sendReviewScreen(
+  chatId: number,
+  state: SessionState,
+  flow: FlowDefinition,
+  env: Env,
+): Promise<SentMessage> {
+  return sendMessage(
+    chatId,
+    reviewScreenText(state, flow),
+    {
+      inline_keyboard: [
+        [{ text: "✅ Confirmar", callback_data: REVIEW_CONFIRM_DATA }],
+        [{ text: "✏️ Editar", callback_data: REVIEW_EDIT_DATA }],
+      ],
+    },
+    env,
+  );
+}
+
+function reviewScreenText(state: SessionState, flow: FlowDefinition): string {
+  const lines = ["📝 <b>Revisa tus respuestas</b>", ""];
+  for (const question of flow.questions) {
+    const value = state.answers[question.answer_key];
+    if (value === undefined) continue;
+    lines.push(`• <b>${escapeHtml(questionLabel(question))}:</b> ${escapeHtml(answerLabel(question, value))}`);
+  }
+  lines.push("", "¿Todo está correcto?");
+  return lines.join("\n");
+}
+
+/** Sends one button per question so the candidate can pick which answer to change. */
+async function sendEditMenu(chatId: number, flow: FlowDefinition, env: Env): Promise<SentMessage> {
+  return sendMessage(
+    chatId,
+    "✏️ ¿Qué respuesta quieres cambiar?",
+    {
+      inline_keyboard: [
+        ...flow.questions.map((q) => [{ text: questionLabel(q), callback_data: `${EDIT_CALLBACK_PREFIX}${q.id}` }]),
+        [{ text: "⬅️ Volver al resumen", callback_data: REVIEW_SHOW_DATA }],
+      ],
+    },
+    env,
+  );
+}
+
+/**
+ * Handles the navigation buttons (Atrás, Editar, Confirmar). Returns false if
+ * `data` isn't a navigation button, so the caller treats it as an answer.
+ */
+async function handleNavigation(
+  data: string,
+  state: SessionState,
+  flow: FlowDefinition,
+  chatId: number,
+  from: TelegramUser,
+  env: Env,
+  ctx: BackgroundTasks,
+): Promise<boolean> {
+  const currentStep = state.step;
+  const previousState = { ...state };
+
+  // ⬅️ Atrás — data names the question it was shown on, so stale buttons do nothing
+  if (data.startsWith(BACK_CALLBACK_PREFIX)) {
+    if (data.slice(BACK_CALLBACK_PREFIX.length) !== currentStep) return true;
+    const index = flow.questions.findIndex((q) => q.id === currentStep);
+
+    if (state.editing) {
+      // Backing out of an edit returns to the summary unchanged
+      delete state.editing;
+      state.step = REVIEW_STEP;
+    } else if (index > 0) {
+      state.step = flow.questions[index - 1].id;
+    } else {
+      return true;
+    }
+
+    logEvent(state, "back", currentStep);
+    delete state.selection;
+    delete state.reply_keyboard;
+    delete state.question_message_id;
+    if (await commitSession(chatId, currentStep, state, env)) {
+      await retireActiveMessage(chatId, previousState, env);
+      await presentStep(chatId, state, flow, env);
+    }
+    return true;
+  }
+
+  const isReviewButton =
+    data === REVIEW_CONFIRM_DATA || data === REVIEW_EDIT_DATA || data === REVIEW_SHOW_DATA ||
+    data.startsWith(EDIT_CALLBACK_PREFIX);
+  if (!isReviewButton) return false;
+  if (currentStep !== REVIEW_STEP) return true; // stale summary or edit menu
+
+  if (data === REVIEW_EDIT_DATA) {
+    await retireActiveMessage(chatId, state, env);
+    await trackActiveMessage(chatId, state, await sendEditMenu(chatId, flow, env), env);
+    return true;
+  }
+
+  if (data === REVIEW_SHOW_DATA) {
+    await retireActiveMessage(chatId, state, env);
+    await presentStep(chatId, state, flow, env);
+    return true;
+  }
+
+  if (data.startsWith(EDIT_CALLBACK_PREFIX)) {
+    const question = flow.questions.find((q) => q.id === data.slice(EDIT_CALLBACK_PREFIX.length));
+    if (!question) return true;
+    state.step = question.id;
+    state.editing = true;
+    delete state.question_message_id;
+    if (await commitSession(chatId, currentStep, state, env)) {
+      await retireActiveMessage(chatId, previousState, env);
+      await presentStep(chatId, state, flow, env);
+    }
+    return true;
+  }
+
+  // ✅ Confirmar — only now do fail rules and scoring run and the result go to Make
+  const threshold = minWeeklyHours(await loadCampaign(state.campaign, env), env);
+  let failReason: string | null = null;
+  let failedStep: StepId | undefined;
+  for (const question of flow.questions) {
+    const value = state.answers[question.answer_key];
+    if (value === undefined) continue;
+    failReason = checkFailCondition(question, value, numericAnswer(question, value), threshold, false);
+    if (failReason) {
+      failedStep = question.id;
+      break;
+    }
+  }
+  const tier = failReason ? "fail" : resolveTier(flow, scoreAnswers(flow, state.answers).total);
+
+  logEvent(state, "confirmed", currentStep);
+  state.step = COMPLETED_STEP;
+  delete state.question_message_id;
+  if (!(await commitSession(chatId, currentStep, state, env))) {
+    return true;
+  }
+  await retireActiveMessage(chatId, previousState, env, `${reviewScreenText(state, flow)}\n\n✅ <i>Confirmado</i>`);
+  const reason = failReason ?? (tier === "fail" ? tierMessage(flow, "fail") : "");
+  await reportResult(tier, reason, failedStep, state, flow, chatId, from, env, ctx);
+  return true;
+}
+
+function buildResultPayload(
+  result: ResultPayload["result"],
+  reason: string,
+  state: SessionState,
+  flow: FlowDefinition,
+  chatId: number,
+  telegramUsername: string | undefined,
+  applicant: ApplicantRecord | null,
+): ResultPayload {
+  const score = scoreAnswers(flow, state.answers);
+  const completedAt = new Date();
+  return {
+    applicant_token: state.applicant_token,
+    telegram_chat_id: chatId,
+    telegram_username: telegramUsername,
+    result,
+    reason,
+    answers: state.answers,
+    flow_version: flow.version,
+    idempotency_key: crypto.randomUUID(),
+    completed_at: completedAt.toISOString(),
+    first_name: applicant?.first_name,
+    email: applicant?.email,
+    phone: applicant?.phone,
+    campaign: state.campaign ?? applicant?.campaign,
+    consent_at: state.consent_at,
+    score: score.total,
+    score_breakdown: score.breakdown,
+    ...summarizeTimeline(state, completedAt.getTime()),
+  };
+}
+
+/**
+ * Queues result for Make.com, sends the tier's user-facing message and
+ * handoff, and cleans up the session.
+ * Callers must have committed the session as completed first.
+ */
+async function reportResult(
+  result: OutcomeTier,
+  reason: string, // full user-facing message for "fail"; empty otherwise
+  failedStep: StepId | undefined, // question whose fail rule failed the candidate
+  state: SessionState,
+  flow: FlowDefinition,
+  chatId: number,
+  from: TelegramUser,
+  env: Env,
+  ctx: BackgroundTasks,
+): Promise<void> {
+  const applicant = await loadApplicant(state.applicant_token, env);
+  const payload = buildResultPayload(result, reason, state, flow, chatId, from.username, applicant);
+  payload.failed_step = failedStep;
+  flagRepeatScreening(payload, await loadScreeningHistory(chatId, env));
+  const completedAt = payload.completed_at;
+
+  // Assigned first so Make and the candidate card get the recruiter
+  const handoff = TIER_DEFAULTS[result].handoff;
+  const contact = handoff === "interview" ? await assignHandoffContact(state.campaign, env) : null;
+  if (contact?.recruiter_id && contact.link) {
+    payload.recruiter = {
+      id: contact.recruiter_id,
+      name: contact.name,
+      link: contact.link,
+      replies_from: new Date(contact.replies_from ?? Date.now()).toISOString(),
+    };
+  }
+
+  // Persist before anything else so the result survives a failed delivery
+  await queueResult(payload, env, ctx);
+  ctx.waitUntil(
+    recordMetrics(resultCounters(payload, flow), payload.campaign, env, Math.round(payload.completion_seconds ?? 0)),
+  );
+
+  if (handoff !== "none") {
+    ctx.waitUntil(postCandidateCard(payload, state, flow, from, env));
+  }
+
+  // A completed token can't be used to screen again (see retakeBlockMessage)
+  await recordScreening(
+    chatId,
+    { applicant_token: state.applicant_token, result, completed_at: completedAt, result_id: payload.idempotency_key },
+    env,
+  );
+  if (applicant) {
+    applicant.status = "completed";
+    applicant.completed_at = completedAt;
+    applicant.result = result;
+    await saveApplicant(applicant, env);
+  }
+
+  // Send user-facing result message — interview tiers book an interview
+  // in-chat when slots are available, otherwise they're handed to their
+  // recruiter (or the campaign's handoff contact)
+  const headline = tierMessage(flow, result);
+  let officeHoursLine = "";
+  if (contact?.replies_from !== undefined && contact.replies_from > Date.now()) {
+    const timezone = resolveTimezone(applicant?.timezone, env);
+    const when = formatSlotTime(new Date(contact.replies_from).toISOString(), timezone);
+    officeHoursLine =
+      `🕘 ${escapeHtml(contact.name)} está fuera de su horario; te responderá a partir del <b>${when}</b>.\n\n`;
+  }
+  if (contact && (await offerInterviewSlots(chatId, headline, payload, applicant, env))) {
+    if (contact.link) {
+      await sendMessage(
+        chatId,
+        `🤔 ¿Ningún horario te funciona? Escribe a <b>${escapeHtml(contact.name)}</b> por ` +
+          `${contactChannel(contact.link)}:\n${contact.link}` +
+          (officeHoursLine ? `\n\n${officeHoursLine.trim()}` : ""),
+        null,
+        env,
+      );
+    }
+  } else if (contact) {
+    if (!contact.link) {
+      console.error(
+        `No handoff link configured for campaign ${state.campaign ?? "(none)"} — omitting it from PASS message`,
+      );
+    }
+    const linkLine = contact.link
+      ? `👉 Escribe aquí a <b>${escapeHtml(contact.name)}</b> por ${contactChannel(contact.link)}:\n${contact.link}\n\n`
+      : "";
+    await sendMessage(
+      chatId,
+      `${headline}\n\n` +
+        "🧑‍💼 Siguiente paso: hablar con una persona del equipo para coordinar tu <b>primera entrevista</b>.\n\n" +
+        linkLine +
+        officeHoursLine +
+        "💬 <i>Mensaje sugerido:</i>\n" +
+        `"Hola ${escapeHtml(contact.name.split(" ")[0])}, pasé el pre-filtro de SpanishVIP. ` +
+        `Mi nombre es ${escapeHtml(applicant?.first_name ?? "___")} ` +
+        `y mi correo es ${escapeHtml(applicant?.email ?? "___")}."`,
+      null,
+      env,
+    );
+  } else if (handoff === "review") {
+    await sendMessage(chatId, headline, null, env);
+  } else {
+    // reason already contains the full user-facing Spanish message
+    await sendMessage(chatId, reason, null, env);
+  }
+
+  // The session was already committed as completed, so stale callbacks are
+  // ignored until it is gone
+  await deleteSession(chatId, env);
+}
+
+// ---------------------------------------------------------------------------
+// Recruiter notifications — actionable candidate cards in the staff group
+// ---------------------------------------------------------------------------
+
+/** Formats a duration as e.g. "3 min 12 s". */
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes} min ${seconds} s` : `${seconds} s`;
+}
+
+function buildCandidateCard(card: CandidateCard, flow: FlowDefinition): string {
+  const p = card.payload;
+  const lines = [
+    TIER_DEFAULTS[p.result in TIER_DEFAULTS ? (p.result as OutcomeTier) : "fail"].card_title,
+    "",
+    `👤 <b>Nombre:</b> ${escapeHtml(p.first_name ?? card.telegram_first_name)}`,
+    `💬 <b>Usuario:</b> ${p.telegram_username ? "@" + escapeHtml(p.telegram_username) : "—"}`,
+  ];
+  if (p.email) lines.push(`📧 <b>Correo:</b> ${escapeHtml(p.email)}`);
+  if (p.phone) lines.push(`📱 <b>Teléfono:</b> ${escapeHtml(p.phone)}`);
+  if (p.campaign) lines.push(`🏷️ <b>Campaña:</b> ${escapeHtml(p.campaign)}`);
+  if (p.answers.age !== undefined) lines.push(`🎂 <b>Edad:</b> ${p.answers.age}`);
+  if (p.score !== undefined) lines.push(`📊 <b>Puntaje:</b> ${p.score}`);
+  if (p.recruiter) lines.push(`🤝 <b>Reclutador:</b> ${escapeHtml(p.recruiter.name)}`);
+  if (p.previous_result) {
+    const otherToken = p.duplicate_of ? ` — con otra aplicación (<code>${escapeHtml(p.duplicate_of)}</code>)` : "";
+    lines.push(`🔁 <b>Intento anterior:</b> ${p.previous_result}${otherToken}`);
+  }
+  lines.push(`⏱️ <b>Tiempo:</b> ${formatDuration(Date.parse(p.completed_at) - Date.parse(card.started_at))}`);
+
+  lines.push("", "🧾 <b>Respuestas:</b>");
+  for (const question of flow.questions) {
+    const value = p.answers[question.answer_key];
+    if (value === undefined) continue;
+    const points = p.score_breakdown?.[question.answer_key];
+    const pointsNote = points !== undefined && flow.scoring ? ` <i>(+${points})</i>` : "";
+    lines.push(`• ${escapeHtml(questionLabel(question))}: ${escapeHtml(answerLabel(question, value))}${pointsNote}`);
+  }
+
+  if (card.decision) {
+    const action = RECRUITER_ACTIONS[card.decision.action];
+    lines.push(
+      "",
+      `📌 <b>Decisión:</b> ${action.label} — ${escapeHtml(card.decision.by)} ` +
+        `(${card.decision.at.slice(0, 16).replace("T", " ")} UTC)`,
+    );
+  }
+  return lines.join("\n");
+}
+
+function candidateCardKeyboard(cardId: string): object {
+  const actions = Object.keys(RECRUITER_ACTIONS) as RecruiterAction[];
+  return {
+    inline_keyboard: [
+      actions.map((action) => ({
+        text: RECRUITER_ACTIONS[action].label,
+        callback_data: `${RECRUITER_CALLBACK_PREFIX}${action}:${cardId}`,
+      })),
+    ],
+  };
+}
+
+/**
+ * Posts a candidate card to the staff group. No-op when STAFF_CHAT_ID is
+ * unset. Never throws — the candidate's result is already queued for Make.
+ */
+async function postCandidateCard(
+  payload: ResultPayload,
+  state: SessionState,
+  flow: FlowDefinition,
+  from: TelegramUser,
+  env: Env,
+): Promise<void> {
+  const staffChatId = Number(env.STAFF_CHAT_ID);
+  if (!env.STAFF_CHAT_ID || !Number.isFinite(staffChatId)) return;
+
+  try {
+    const card: CandidateCard = {
+      id: payload.idempotency_key,
+      payload,
+      flow_version: flow.version,
+      started_at: state.started_at,
+      telegram_first_name: from.first_name,
+    };
+    const sent = await sendMessage(
+      staffChatId,
+      buildCandidateCard(card, flow),
+      candidateCardKeyboard(card.id),
+      env,
+    );
+    // A queued card is posted later; its buttons still need the saved card
+    if (!sent.ok && !sent.error.queued) return;
+
+    if (sent.ok) card.staff_message_id = sent.message_id;
+    await env.BOT_KV.put(`${CANDIDATE_CARD_KEY_PREFIX}${card.id}`, JSON.stringify(card));
+
+    // Speaking samples go right under the card so recruiters can play them there
+    for (const question of flow.questions) {
+      const value = payload.answers[question.answer_key];
+      if (isMediaAnswer(value)) {
+        await sendMedia(staffChatId, value, card.staff_message_id, env);
+      }
+    }
+  } catch (e) {
+    console.error(`Failed to post candidate card for ${payload.applicant_token}:`, e);
+  }
+}
+
+async function loadCandidateCard(cardId: string, env: Env): Promise<CandidateCard | null> {
+  const raw = await env.BOT_KV.get(`${CANDIDATE_CARD_KEY_PREFIX}${cardId}`);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as CandidateCard;
+  } catch (e) {
+    console.error(`Failed to parse candidate card ${cardId}:`, e);
+    return null;
+  }
+}
+
+/**
+ * Handles a recruiter pressing a button on a candidate card: records the
+ * decision, updates the card and optionally messages the candidate.
+ */
+async function handleRecruiterAction(cq: TelegramCallbackQuery, env: Env): Promise<void> {
+  const staffChatId = Number(env.STAFF_CHAT_ID);
+  if (!env.STAFF_CHAT_ID || cq.message?.chat.id !== staffChatId) {
+    // Only members of the staff group can act on cards
+    await answerCallbackQuery(cq.id, env);
+    return;
+  }
+
+  const [action, cardId] = (cq.data ?? "").slice(RECRUITER_CALLBACK_PREFIX.length).split(":");
+  if (!(action in RECRUITER_ACTIONS) || !cardId) {
+    console.error("Unexpected recruiter callback_data:", cq.data);
+    await answerCallbackQuery(cq.id, env);
+    return;
+  }
+  const recruiterAction = action as RecruiterAction;
+
+  const card = await loadCandidateCard(cardId, env);
+  if (!card) {
+    await answerCallbackQuery(cq.id, env, "⚠️ No se encontró esta tarjeta.");
+    return;
+  }
+
+  if (card.decision?.action === recruiterAction) {
+    await answerCallbackQuery(cq.id, env, "Ya registrado.");
+    return;
+  }
+
+  card.decision = {
+    action: recruiterAction,
+    by: cq.from.username ? `@${cq.from.username}` : cq.from.first_name,
+    at: new Date().toISOString(),
+  };
+  await env.BOT_KV.put(`${CANDIDATE_CARD_KEY_PREFIX}${card.id}`, JSON.stringify(card));
+  await answerCallbackQuery(cq.id, env, `${RECRUITER_ACTIONS[recruiterAction].label} ✔️`);
+
+  // Keep the decision with the applicant record too
+  const applicant = await loadApplicant(card.payload.applicant_token, env);
+  if (applicant) {
+    applicant.recruiter_decision = card.decision;
+    await saveApplicant(applicant, env);
+  }
+
+  const flow = await loadFlow(card.flow_version, env);
+  if (card.staff_message_id !== undefined) {
+    await editMessageText(
+      staffChatId,
+      card.staff_message_id,
+      buildCandidateCard(card, flow),
+      candidateCardKeyboard(card.id),
+      env,
+    );
+  }
+
+  if (env.NOTIFY_CANDIDATE_ON_DECISION === "true") {
+    const template = RECRUITER_ACTIONS[recruiterAction].candidate_message;
+    const firstName = card.payload.first_name ?? card.telegram_first_name;
+    await sendMessage(
+      card.payload.telegram_chat_id,
+      template.replaceAll("{first_name}", escapeHtml(firstName)),
+      null,
+      env,
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Interview scheduling — slot calendar Durable Object + candidate booking
+// ---------------------------------------------------------------------------
+
+/**
+ * Single global instance holding every interview slot. Durable Objects run
+ * one call at a time, so two candidates can never book the same slot.
+ */
+export class InterviewCalendar extends DurableObject<Env> {
+  /**
+   * Every slot, soonest first. Past slots are pruned here: open ones once
+   * they have started, booked ones BOOKED_SLOT_RETENTION_MS later.
+   */
+  async listSlots(): Promise<InterviewSlot[]> {
+    const stored = await this.ctx.storage.list<InterviewSlot>({ prefix: CALENDAR_SLOT_KEY_PREFIX });
+    const now = Date.now();
+    const expired = [...stored]
+      .filter(([, slot]) => Date.parse(slot.starts_at) < now - (slot.booking ? BOOKED_SLOT_RETENTION_MS : 0))
+      .map(([key]) => key);
+    // storage.delete takes at most 128 keys per call
+    for (let i = 0; i < expired.length; i += 128) {
+      await this.ctx.storage.delete(expired.slice(i, i + 128));
+    }
+    for (const key of expired) stored.delete(key);
+    return [...stored.values()].sort((a, b) => a.starts_at.localeCompare(b.starts_at));
+  }
+
+  async addSlots(slots: Array<{ starts_at: string; duration_minutes: number }>): Promise<InterviewSlot[]> {
+    const created = slots.map((s) => ({
+      id: crypto.randomUUID().slice(0, 8),
+      starts_at: new Date(s.starts_at).toISOString(),
+      duration_minutes: s.duration_minutes,
+    }));
+    await this.ctx.storage.put(
+      Object.fromEntries(created.map((slot) => [`${CALENDAR_SLOT_KEY_PREFIX}${slot.id}`, slot])),
+    );
+    return created;
+  }
+
+  async removeSlot(slotId: string): Promise<"removed" | "not_found" | "booked"> {
+    const slot = await this.ctx.storage.get<InterviewSlot>(`${CALENDAR_SLOT_KEY_PREFIX}${slotId}`);
+    if (!slot) return "not_found";
+    if (slot.booking) return "booked";
+    await this.ctx.storage.delete(`${CALENDAR_SLOT_KEY_PREFIX}${slotId}`);
+    return "removed";
+  }
+
+  /** Unbooked slots starting at or after `notBefore` (epoch ms), soonest first. */
+  async availableSlots(notBefore: number, limit: number): Promise<InterviewSlot[]> {
+    const slots = await this.listSlots();
+    return slots.filter((s) => !s.booking && Date.parse(s.starts_at) >= notBefore).slice(0, limit);
+  }
+
+  /**
+   * Books a slot for an applicant, releasing any slot they held before
+   * (reschedule). Fails if the slot is gone, already taken or too soon.
+   */
+  async book(slotId: string, booking: SlotBooking, notBefore: number): Promise<BookingResult> {
+    const key = `${CALENDAR_SLOT_KEY_PREFIX}${slotId}`;
+    const slot = await this.ctx.storage.get<InterviewSlot>(key);
+    if (!slot) return { ok: false, reason: "not_found" };
+    if (slot.booking) {
+      return slot.booking.applicant_token === booking.applicant_token
+        ? { ok: true, slot }
+        : { ok: false, reason: "taken" };
+    }
+    if (Date.parse(slot.starts_at) < notBefore) return { ok: false, reason: "past" };
+
+    const previous = (await this.listSlots()).find(
+      (s) => s.booking?.applicant_token === booking.applicant_token,
+    );
+    if (previous) {
+      delete previous.booking;
+      await this.ctx.storage.put(`${CALENDAR_SLOT_KEY_PREFIX}${previous.id}`, previous);
+    }
+
+    slot.booking = booking;
+    await this.ctx.storage.put(key, slot);
+    return { ok: true, slot, previous };
+  }
+
+  /** Releases the applicant's booked slot. Returns the released slot, or null. */
+  async cancel(applicantToken: string): Promise<InterviewSlot | null> {
+    const slot = (await this.listSlots()).find((s) => s.booking?.applicant_token === applicantToken);
+    if (!slot) return null;
+    delete slot.booking;
+    await this.ctx.storage.put(`${CALENDAR_SLOT_KEY_PREFIX}${slot.id}`, slot);
+    return slot;
+  }
+}
+
+/** Returns the calendar Durable Object, or null when scheduling isn't configured. */
+function interviewCalendarStub(env: Env): DurableObjectStub<InterviewCalendar> | null {
+  if (!env.INTERVIEW_CALENDAR) return null;
+  return env.INTERVIEW_CALENDAR.get(env.INTERVIEW_CALENDAR.idFromName(CALENDAR_INSTANCE_NAME));
+}
+
+/** Formats a slot start for display in the given IANA timezone, e.g. "lun, 3 feb, 10:00 (GMT-5)". */
+function formatSlotTime(startsAt: string, timeZone: string): string {
+  return new Intl.DateTimeFormat("es", {
+    timeZone,
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+    timeZoneName: "short",
+  })
+    .format(new Date(startsAt))
+    .replace(/\s(GMT[^\s]*|[A-Z]{2,5})$/, " ($1)");
+}
+
+/** Falls back to INTERVIEW_TIMEZONE when the applicant's timezone is missing or invalid. */
+function resolveTimezone(candidate: string | undefined, env: Env): string {
+  for (const tz of [candidate, env.INTERVIEW_TIMEZONE, DEFAULT_INTERVIEW_TIMEZONE]) {
+    if (!tz) continue;
+    try {
+      new Intl.DateTimeFormat("es", { timeZone: tz });
+      return tz;
+    } catch {
+      console.error(`Invalid timezone ${tz} — trying the next fallback`);
+    }
+  }
+  return "UTC";
+}
+
+async function loadInterviewContext(chatId: number, env: Env): Promise<InterviewContext | null> {
+  const raw = await env.BOT_KV.get(`${INTERVIEW_CONTEXT_KEY_PREFIX}${chatId}`);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as InterviewContext;
+  } catch (e) {
+    console.error(`Failed to parse interview context for chatId ${chatId}:`, e);
+    return null;
+  }
+}
+
+async function saveInterviewContext(chatId: number, context: InterviewContext, env: Env): Promise<void> {
+  await env.BOT_KV.put(`${INTERVIEW_CONTEXT_KEY_PREFIX}${chatId}`, JSON.stringify(context), {
+    expirationTtl: INTERVIEW_CONTEXT_TTL_SECONDS,
+  });
+}
+
+/**
+ * Sends the candidate the currently available slots as inline buttons.
+ * Returns false (and sends nothing) when there are no slots to offer.
+ */
+async function sendSlotOptions(
+  chatId: number,
+  intro: string,
+  context: InterviewContext,
+  env: Env,
+): Promise<boolean> {
+  const calendar = interviewCalendarStub(env);
+  if (!calendar) return false;
+
+  const slots = await calendar.availableSlots(Date.now() + INTERVIEW_MIN_NOTICE_MS, INTERVIEW_SLOTS_OFFERED);
+  if (slots.length === 0) return false;
+
+  const keyboard = {
+    inline_keyboard: slots.map((slot) => [
+      { text: `🕒 ${formatSlotTime(slot.starts_at, context.timezone)}`, callback_data: `${SLOT_CALLBACK_PREFIX}${slot.id}` },
+    ]),
+  };
+  await sendMessage(chatId, intro, keyboard, env);
+  return true;
+}
+
+/**
+ * Offers interview slots right after a PASS. Returns false when scheduling
+ * is unavailable, so the caller can fall back to the WhatsApp handoff.
+ */
+async function offerInterviewSlots(
+  chatId: number,
+  headline: string, // the tier's message, shown above the slots
+  payload: ResultPayload,
+  applicant: ApplicantRecord | null,
+  env: Env,
+): Promise<boolean> {
+  if (!interviewCalendarStub(env)) return false;
+
+  const context: InterviewContext = {
+    applicant_token: payload.applicant_token,
+    first_name: applicant?.first_name,
+    timezone: resolveTimezone(applicant?.timezone, env),
+    payload,
+  };
+
+  const offered = await sendSlotOptions(
+    chatId,
+    `${headline}\n\n📅 Elige un horario para tu <b>primera entrevista</b>:`,
+    context,
+    env,
+  );
+  if (offered) {
+    await saveInterviewContext(chatId, context, env);
+  }
+  return offered;
+}
+
+/** Queues an interview update for Make, reusing the screening result payload. */
+async function reportInterviewUpdate(
+  context: InterviewContext,
+  update: NonNullable<ResultPayload["update"]>,
+  slot: InterviewSlot,
+  env: Env,
+  ctx: BackgroundTasks,
+): Promise<void> {
+  const payload: ResultPayload = {
+    ...context.payload,
+    idempotency_key: crypto.randomUUID(),
+    update,
+    interview: {
+      slot_id: slot.id,
+      starts_at: slot.starts_at,
+      duration_minutes: slot.duration_minutes,
+      timezone: context.timezone,
+      status: update === "interview_cancelled" ? "cancelled" : "booked",
+    },
+  };
+  await queueResult(payload, env, ctx);
+
+  const staffChatId = Number(env.STAFF_CHAT_ID);
+  if (env.STAFF_CHAT_ID && Number.isFinite(staffChatId)) {
+    const name = escapeHtml(context.first_name ?? context.applicant_token);
+    const when = formatSlotTime(slot.starts_at, resolveTimezone(undefined, env));
+    const verb = update === "interview_cancelled" ? "❌ Entrevista cancelada" : "📅 Entrevista agendada";
+    ctx.waitUntil(sendMessage(staffChatId, `${verb}: <b>${name}</b> — ${when}`, null, env));
+  }
+}
+
+/** Handles a candidate tapping an interview slot button. */
+async function handleSlotSelection(
+  chatId: number,
+  slotId: string,
+  slotMessageId: number | undefined,
+  env: Env,
+  ctx: BackgroundTasks,
+): Promise<void> {
+  const calendar = interviewCalendarStub(env);
+  const context = await loadInterviewContext(chatId, env);
+  if (!calendar || !context) {
+    await sendMessage(
+      chatId,
+      "⚠️ Esta opción ya no está disponible. Si necesitas ayuda, escríbenos por correo.",
+      null,
+      env,
+    );
+    return;
+  }
+
+  const booking: SlotBooking = {
+    applicant_token: context.applicant_token,
+    chat_id: chatId,
+    first_name: context.first_name,
+    booked_at: new Date().toISOString(),
+  };
+  const result = await calendar.book(slotId, booking, Date.now() + INTERVIEW_MIN_NOTICE_MS);
+  if (!result.ok) {
+    const offered = await sendSlotOptions(
+      chatId,
+      "😕 Ese horario ya no está disponible. Elige otro:",
+      context,
+      env,
+    );
+    if (!offered) {
+      await sendMessage(
+        chatId,
+        "😕 Ese horario ya no está disponible y no quedan otros por ahora. Te escribiremos para coordinar.",
+        null,
+        env,
+      );
+    }
+    return;
+  }
+
+  const { slot, previous } = result;
+  if (context.slot_id === slot.id) {
+    return; // repeated tap on the slot they already hold
+  }
+  context.slot_id = slot.id;
+  await saveInterviewContext(chatId, context, env);
+  if (slotMessageId !== undefined) {
+    await editMessageReplyMarkup(chatId, slotMessageId, null, env);
+  }
+
+  await sendMessage(
+    chatId,
+    `✅ ¡Listo! Tu entrevista quedó agendada para <b>${formatSlotTime(slot.starts_at, context.timezone)}</b>.\n\n` +
+      "🔁 Para cambiar el horario usa /reagendar\n" +
+      "❌ Para cancelarla usa /cancelar",
+    null,
+    env,
+  );
+  await reportInterviewUpdate(context, previous ? "interview_rescheduled" : "interview_booked", slot, env, ctx);
+}
+
+/** /reagendar — shows the available slots again; the new pick replaces the old booking. */
+async function handleReschedule(chatId: number, env: Env): Promise<void> {
+  const context = await loadInterviewContext(chatId, env);
+  if (!context) {
+    await sendMessage(chatId, "🔎 No encontramos una entrevista para reagendar.", null, env);
+    return;
+  }
+  const offered = await sendSlotOptions(chatId, "📅 Elige un nuevo horario para tu entrevista:", context, env);
+  if (!offered) {
+    await sendMessage(
+      chatId,
+      "😕 No hay otros horarios disponibles por ahora. Te escribiremos para coordinar.",
+      null,
+      env,
+    );
+  }
+}
+
+/** /cancelar — releases the candidate's booked slot. */
+async function handleCancelInterview(chatId: number, env: Env, ctx: BackgroundTasks): Promise<void> {
+  const calendar = interviewCalendarStub(env);
+  const context = await loadInterviewContext(chatId, env);
+  const released = calendar && context ? await calendar.cancel(context.applicant_token) : null;
+  if (!context || !released) {
+    await sendMessage(chatId, "🔎 No tienes una entrevista agendada.", null, env);
+    return;
+  }
+
+  delete context.slot_id;
+  await saveInterviewContext(chatId, context, env);
+  await sendMessage(
+    chatId,
+    "❌ Tu entrevista fue cancelada. Si quieres elegir otro horario, usa /reagendar.",
+    null,
+    env,
+  );
+  await reportInterviewUpdate(context, "interview_cancelled", released, env, ctx);
+}
+
+/**
+ * /admin/slots — recruiters maintain the interview availability.
+ *   GET                      list all slots with their bookings
+ *   POST { slots: [{ starts_at, duration_minutes? }] }   add slots
+ *   DELETE /admin/slots/<id> remove an unbooked slot
+ */
+async function handleAdminSlots(request: Request, url: URL, env: Env): Promise<Response> {
+  const calendar = interviewCalendarStub(env);
+  if (!calendar) {
+    return jsonResponse({ error: "INTERVIEW_CALENDAR is not configured" }, 501);
+  }
+
+  if (request.method === "GET" && url.pathname === "/admin/slots") {
+    return jsonResponse({ slots: await calendar.listSlots() });
+  }
+
+  if (request.method === "POST" && url.pathname === "/admin/slots") {
+    const body = await readJsonObject(request);
+    if (!body) {
+      return jsonResponse({ error: "invalid_json" }, 400);
+    }
+    if (!Array.isArray(body.slots) || body.slots.length === 0) {
+      return jsonResponse({ error: "slots must be a non-empty array" }, 400);
+    }
+    const slots: Array<{ starts_at: string; duration_minutes: number }> = [];
+    for (const s of body.slots as Array<Record<string, unknown>>) {
+      if (
+        typeof s?.starts_at !== "string" ||
+        !SLOT_STARTS_AT_PATTERN.test(s.starts_at) ||
+        isNaN(Date.parse(s.starts_at))
+      ) {
+        return jsonResponse({ error: "each slot needs an ISO-8601 starts_at ending in Z or a ±HH:MM offset" }, 400);
+      }
+      const duration = typeof s.duration_minutes === "number" && s.duration_minutes > 0
+        ? s.duration_minutes
+        : DEFAULT_INTERVIEW_DURATION_MINUTES;
+      slots.push({ starts_at: s.starts_at, duration_minutes: duration });
+    }
+    return jsonResponse({ slots: await calendar.addSlots(slots) }, 201);
+  }
+
+  const deleteMatch = /^\/admin\/slots\/([^/]+)$/.exec(url.pathname);
+  if (request.method === "DELETE" && deleteMatch) {
+    const outcome = await calendar.removeSlot(decodeURIComponent(deleteMatch[1]));
+    if (outcome === "not_found") return jsonResponse({ error: "not_found" }, 404);
+    if (outcome === "booked") return jsonResponse({ error: "slot is booked" }, 409);
+    return jsonResponse({ removed: true });
+  }
+
+  return jsonResponse({ error: "not_found" }, 404);
+}
 
 // ---------------------------------------------------------------------------
-// Telegram API wrappers
+// Recruiter pool — assigns interview-tier candidates to recruiters
+// ---------------------------------------------------------------------------
+
+/** Minutes since midnight of an "HH:MM" time. */
+function workMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/** Local calendar date, ISO weekday and minutes since midnight of an instant in an IANA timezone. */
+function zonedParts(
+  at: number,
+  timeZone: string,
+): { year: number; month: number; day: number; weekday: number; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      weekday: "short",
+      hour: "numeric",
+      minute: "numeric",
+      hourCycle: "h23",
+    })
+      .formatToParts(new Date(at))
+      .map((part) => [part.type, part.value]),
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"].indexOf(parts.weekday) + 1,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/** Epoch ms of a local date and time in an IANA timezone. */
+function zonedTime(year: number, month: number, day: number, minutes: number, timeZone: string): number {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  // Subtract the zone's UTC offset at that moment — twice, in case the first
+  // guess lands on the other side of a DST change
+  let at = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const local = zonedParts(at, timeZone);
+    at = wallClock - (Date.UTC(local.year, local.month - 1, local.day, 0, local.minutes) - at);
+  }
+  return at;
+}
+
+/**
+ * When the recruiter can next reply: `now` while on shift, otherwise the
+ * start of their next shift (within the coming week).
+ */
+function nextShiftStart(recruiter: Recruiter, now: number): number {
+  const start = workMinutes(recruiter.work_start);
+  const end = workMinutes(recruiter.work_end);
+  for (let offset = 0; offset <= 7; offset++) {
+    const local = zonedParts(now + offset * 24 * 60 * 60 * 1000, recruiter.timezone);
+    if (!recruiter.work_days.includes(local.weekday)) continue;
+    const shiftStart = zonedTime(local.year, local.month, local.day, start, recruiter.timezone);
+    const shiftEnd = zonedTime(local.year, local.month, local.day, end, recruiter.timezone);
+    if (now < shiftStart) return shiftStart;
+    if (now < shiftEnd) return now;
+  }
+  return now; // no working days configured
+}
+
+/** Structural check for a recruiter. Returns an error description, or null. */
+function validateRecruiter(recruiter: Recruiter): string | null {
+  if (!RECRUITER_ID_PATTERN.test(recruiter.id)) return "id must be 1–32 lowercase letters, digits or -";
+  if (typeof recruiter.name !== "string" || !recruiter.name.trim()) return "name is required";
+  if (typeof recruiter.link !== "string" || !/^https:\/\/(wa\.me|t\.me)\//.test(recruiter.link)) {
+    return "link must be a https://wa.me/ or https://t.me/ link";
+  }
+  if (!Number.isInteger(recruiter.weekly_capacity) || recruiter.weekly_capacity < 0) {
+    return "weekly_capacity must be a whole number of at least 0";
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: recruiter.timezone });
+  } catch {
+    return "timezone must be an IANA timezone";
+  }
+  if (
+    !Array.isArray(recruiter.work_days) ||
+    recruiter.work_days.length === 0 ||
+    recruiter.work_days.some((d) => !Number.isInteger(d) || d < 1 || d > 7)
+  ) {
+    return "work_days must list ISO weekdays (1 = Monday … 7 = Sunday)";
+  }
+  if (!WORK_TIME_PATTERN.test(recruiter.work_start) || !WORK_TIME_PATTERN.test(recruiter.work_end)) {
+    return "work_start and work_end must be HH:MM";
+  }
+  if (workMinutes(recruiter.work_end) <= workMinutes(recruiter.work_start)) {
+    return "work_end must be after work_start";
+  }
+  if (typeof recruiter.active !== "boolean") return "active must be true or false";
+  if (
+    recruiter.campaigns !== undefined &&
+    (!Array.isArray(recruiter.campaigns) || recruiter.campaigns.some((c) => typeof c !== "string"))
+  ) {
+    return "campaigns must be an array of campaign ids";
+  }
+  return null;
+}
+
+/**
+ * Single global instance holding the recruiters and their recent
+ * assignments, so concurrent PASS results are balanced correctly.
+ */
+export class RecruiterPool extends DurableObject<Env> {
+  async listRecruiters(now: number): Promise<RecruiterStatus[]> {
+    const recruiters = await this.ctx.storage.list<Recruiter>({ prefix: RECRUITER_KEY_PREFIX });
+    const statuses: RecruiterStatus[] = [];
+    for (const recruiter of recruiters.values()) {
+      const load = await this.recentAssignments(recruiter.id, now);
+      statuses.push({
+        ...recruiter,
+        assigned_last_7_days: load.length,
+        last_assigned_at: load.length > 0 ? new Date(load[load.length - 1]).toISOString() : null,
+        on_shift: nextShiftStart(recruiter, now) <= now,
+      });
+    }
+    return statuses.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /** Creates or replaces a recruiter; their assignment history is kept. */
+  async putRecruiter(recruiter: Recruiter): Promise<"created" | "updated"> {
+    const key = `${RECRUITER_KEY_PREFIX}${recruiter.id}`;
+    const existing = await this.ctx.storage.get<Recruiter>(key);
+    await this.ctx.storage.put(key, recruiter);
+    return existing ? "updated" : "created";
+  }
+
+  async removeRecruiter(id: string): Promise<boolean> {
+    const removed = await this.ctx.storage.delete(`${RECRUITER_KEY_PREFIX}${id}`);
+    await this.ctx.storage.delete(`${RECRUITER_LOAD_KEY_PREFIX}${id}`);
+    return removed;
+  }
+
+  /**
+   * Assigns a candidate to the active recruiter with spare weekly capacity
+   * who serves the campaign: on-shift recruiters first, then the least loaded
+   * relative to capacity, then whoever was assigned longest ago (round-robin).
+   * Returns null when no one is available.
+   */
+  async assign(
+    campaign: string | undefined,
+    now: number,
+  ): Promise<{ recruiter: Recruiter; replies_from: number } | null> {
+    const eligible = (await this.listRecruiters(now)).filter(
+      (r) =>
+        r.active &&
+        r.assigned_last_7_days < r.weekly_capacity &&
+        (!r.campaigns || (campaign !== undefined && r.campaigns.includes(campaign))),
+    );
+    eligible.sort(
+      (a, b) =>
+        Number(b.on_shift) - Number(a.on_shift) ||
+        a.assigned_last_7_days / a.weekly_capacity - b.assigned_last_7_days / b.weekly_capacity ||
+        (a.last_assigned_at ?? "").localeCompare(b.last_assigned_at ?? ""),
+    );
+    const chosen = eligible[0];
+    if (!chosen) return null;
+
+    const { assigned_last_7_days: _load, last_assigned_at: _last, on_shift: _onShift, ...recruiter } = chosen;
+    const load = await this.recentAssignments(recruiter.id, now);
+    await this.ctx.storage.put(`${RECRUITER_LOAD_KEY_PREFIX}${recruiter.id}`, [...load, now]);
+    return { recruiter, replies_from: nextShiftStart(recruiter, now) };
+  }
+
+  private async recentAssignments(id: string, now: number): Promise<number[]> {
+    const load = (await this.ctx.storage.get<number[]>(`${RECRUITER_LOAD_KEY_PREFIX}${id}`)) ?? [];
+    return load.filter((at) => now - at < RECRUITER_LOAD_WINDOW_MS);
+  }
+}
+
+/** Returns the recruiter pool Durable Object, or null when the pool isn't configured. */
+function recruiterPoolStub(env: Env): DurableObjectStub<RecruiterPool> | null {
+  if (!env.RECRUITER_POOL) return null;
+  return env.RECRUITER_POOL.get(env.RECRUITER_POOL.idFromName(RECRUITER_POOL_INSTANCE_NAME));
+}
+
+/**
+ * Picks who an interview-tier candidate is handed to: a recruiter from the
+ * pool, else the campaign's handoff contact (Maria Camila by default).
+ */
+async function assignHandoffContact(campaignId: string | undefined, env: Env): Promise<HandoffContact> {
+  const pool = recruiterPoolStub(env);
+  if (pool) {
+    try {
+      const assigned = await pool.assign(campaignId, Date.now());
+      if (assigned) {
+        return {
+          name: assigned.recruiter.name,
+          link: assigned.recruiter.link,
+          recruiter_id: assigned.recruiter.id,
+          replies_from: assigned.replies_from,
+        };
+      }
+      console.error(`No recruiter available for campaign ${campaignId ?? "(none)"} — using the handoff contact`);
+    } catch (e) {
+      console.error("Recruiter assignment failed — using the handoff contact:", e);
+    }
+  }
+  return handoffContact(await loadCampaign(campaignId, env), env);
+}
+
+/** "WhatsApp" or "Telegram", for "Escribe a … por …". */
+function contactChannel(link: string): string {
+  return link.startsWith("https://t.me/") ? "Telegram" : "WhatsApp";
+}
+
+/**
+ * Admin API for the pool:
+ *   GET    /admin/recruiters       — recruiters with their 7-day load and shift status
+ *   PUT    /admin/recruiters/<id>  — create or replace one (deactivate with "active": false)
+ *   DELETE /admin/recruiters/<id>
+ */
+async function handleAdminRecruiters(request: Request, url: URL, env: Env): Promise<Response> {
+  const pool = recruiterPoolStub(env);
+  if (!pool) {
+    return jsonResponse({ error: "RECRUITER_POOL is not configured" }, 501);
+  }
+
+  if (request.method === "GET" && url.pathname === "/admin/recruiters") {
+    return jsonResponse({ recruiters: await pool.listRecruiters(Date.now()) });
+  }
+
+  const idMatch = /^\/admin\/recruiters\/([^/]+)$/.exec(url.pathname);
+  if (request.method === "PUT" && idMatch) {
+    const body = await readJsonObject(request);
+    if (!body) {
+      return jsonResponse({ error: "invalid_json" }, 400);
+    }
+    const recruiter: Recruiter = {
+      id: decodeURIComponent(idMatch[1]),
+      name: optionalString(body.name) ?? "",
+      link: optionalString(body.link) ?? "",
+      weekly_capacity: body.weekly_capacity as number,
+      timezone: optionalString(body.timezone) ?? resolveTimezone(undefined, env),
+      work_days: (body.work_days ?? DEFAULT_WORK_DAYS) as number[],
+      work_start: body.work_start as string,
+      work_end: body.work_end as string,
+      active: (body.active ?? true) as boolean,
+      campaigns: body.campaigns as string[] | undefined,
+    };
+    const problem = validateRecruiter(recruiter);
+    if (problem) {
+      return jsonResponse({ error: problem }, 400);
+    }
+    const outcome = await pool.putRecruiter(recruiter);
+    return jsonResponse(recruiter, outcome === "created" ? 201 : 200);
+  }
+
+  if (request.method === "DELETE" && idMatch) {
+    if (!(await pool.removeRecruiter(decodeURIComponent(idMatch[1])))) {
+      return jsonResponse({ error: "not_found" }, 404);
+    }
+    return jsonResponse({ removed: true });
+  }
+
+  return jsonResponse({ error: "not_found" }, 404);
+}
+
+// ---------------------------------------------------------------------------
+// Idle sessions — reminders and "abandoned" results (Cron Trigger)
+// ---------------------------------------------------------------------------
+
+/** Parses a comma-separated list of hours (e.g. "24,72") into ascending milliseconds. */
+function parseHoursList(value: string | undefined, fallback: number[]): number[] {
+  const hours = (value ?? "")
+    .split(",")
+    .map((h) => parseFloat(h.trim()))
+    .filter((h) => Number.isFinite(h) && h > 0);
+  return (hours.length > 0 ? hours : fallback).sort((a, b) => a - b).map((h) => h * 60 * 60 * 1000);
+}
+
+/**
+ * Indexes a session so the idle sweep can find it (written on start, removed
+ * on delete). The sweep drops entries whose session has expired; the TTL only
+ * catches entries it never reaches.
+ */
+async function markSessionActive(chatId: number, env: Env): Promise<void> {
+  await env.BOT_KV.put(`${ACTIVE_SESSION_KEY_PREFIX}${chatId}`, "1", { expirationTtl: ACTIVE_SESSION_TTL_SECONDS });
+}
+
+async function sendReminder(chatId: number, reminderNumber: number, env: Env): Promise<void> {
+  const text =
+    reminderNumber === 1
+      ? "👋 ¡Hola! Notamos que no terminaste tu pre-filtro de SpanishVIP.\n" +
+        "Solo te faltan unas preguntas rápidas. ¿Continuamos? 🙂"
+      : "⏰ ¡Hola de nuevo! Tu pre-filtro de SpanishVIP sigue pendiente.\n" +
+        "Si aún te interesa el rol, toca <b>Continuar</b> para terminarlo. 💛";
+  await sendMessage(
+    chatId,
+    text,
+    { inline_keyboard: [[{ text: "▶️ Continuar", callback_data: RESUME_CALLBACK_DATA }]] },
+    env,
+  );
+}
+
+/**
+ * Claims an unfinished session as completed and builds its "abandoned" /
+ * "blocked" payload. Returns null if the candidate answered at this very
+ * moment — their answer wins and the session is left alone.
+ */
+async function closeIncompleteSession(
+  chatId: number,
+  state: SessionState,
+  result: IncompleteResult,
+  env: Env,
+): Promise<{ payload: ResultPayload; flow: FlowDefinition } | null> {
+  const flow = await loadSessionFlow(state, env);
+  const lastStep = state.step;
+  if (!(await commitSession(chatId, lastStep, { ...state, step: COMPLETED_STEP }, env))) {
+    return null;
+  }
+
+  const applicant = await loadApplicant(state.applicant_token, env);
+  const payload = buildResultPayload(result, "", state, flow, chatId, state.telegram_username, applicant);
+  payload.last_step = lastStep;
+  flagRepeatScreening(payload, await loadScreeningHistory(chatId, env));
+  return { payload, flow };
+}
+
+/** Reports a session that passed the final deadline as "abandoned" and closes it. */
+async function reportAbandoned(
+  chatId: number,
+  state: SessionState,
+  env: Env,
+  ctx: BackgroundTasks,
+): Promise<void> {
+  const closed = await closeIncompleteSession(chatId, state, "abandoned", env);
+  if (!closed) return;
+  await queueResult(closed.payload, env, ctx);
+  ctx.waitUntil(recordMetrics(resultCounters(closed.payload, closed.flow), closed.payload.campaign, env));
+
+  await sendMessage(
+    chatId,
+    "⌛ Tu pre-filtro quedó incompleto y se cerró.\n" +
+      "Si aún te interesa, escríbenos por correo y con gusto te ayudamos. 🙏",
+    state.reply_keyboard ? { remove_keyboard: true } : null,
+    env,
+  );
+  await deleteSession(chatId, env);
+}
+
+/**
+ * Called by reportTelegramError when a private chat answers 403 (bot blocked,
+ * account deleted): reports the candidate's unfinished screening as "blocked" and
+ * closes it, so it doesn't wait for the idle sweep. Sends nothing to the chat
+ * and never throws. Runs inline, since reportTelegramError has no
+ * ExecutionContext to hand this to; on the /notify path that means the
+ * request waits for it.
+ */
+async function reportBlocked(chatId: number, env: Env): Promise<void> {
+  try {
+    const state = await loadSession(chatId, env);
+    if (!state || state.step === COMPLETED_STEP) return;
+    const closed = await closeIncompleteSession(chatId, state, "blocked", env);
+    if (!closed) return;
+    const entry = await enqueueResult(closed.payload, env);
+    await deliverOutboxEntry(entry, env);
+    await recordMetrics(resultCounters(closed.payload, closed.flow), closed.payload.campaign, env);
+    await deleteSession(chatId, env);
+  } catch (e) {
+    console.error(`Failed to report blocked chatId ${chatId}:`, e);
+  }
+}
+
+/**
+ * Cron sweep — sends reminders to sessions idle past each REMINDER_AFTER_HOURS
+ * interval and reports sessions idle past ABANDON_AFTER_HOURS as "abandoned".
+ * Each call handles at most IDLE_SWEEP_BATCH_SIZE sessions and saves where it
+ * stopped: the hourly cron starts a pass (or continues one), the outbox cron
+ * only continues.
+ */
+async function processIdleSessions(env: Env, ctx: BackgroundTasks, startPass: boolean): Promise<void> {
+  let progress: IdleSweepProgress | null = null;
+  const raw = await env.BOT_KV.get(IDLE_SWEEP_PROGRESS_KEY);
+  if (raw) {
+    try {
+      progress = JSON.parse(raw) as IdleSweepProgress;
+    } catch (e) {
+      console.error("Failed to parse idle sweep progress:", e);
+    }
+  }
+  if (!progress && !startPass) return;
+
+  const reminderAfter = parseHoursList(env.REMINDER_AFTER_HOURS, DEFAULT_REMINDER_AFTER_HOURS);
+  const [abandonAfter] = parseHoursList(env.ABANDON_AFTER_HOURS, [DEFAULT_ABANDON_AFTER_HOURS]);
+  const now = Date.now();
+
+  const page = await env.BOT_KV.list({
+    prefix: ACTIVE_SESSION_KEY_PREFIX,
+    cursor: progress?.cursor,
+    limit: IDLE_SWEEP_BATCH_SIZE,
+  });
+  for (const key of page.keys) {
+    const chatId = Number(key.name.slice(ACTIVE_SESSION_KEY_PREFIX.length));
+    try {
+      const state = await loadSession(chatId, env);
+      if (!state) {
+        await env.BOT_KV.delete(key.name); // expired or already cleaned up
+        continue;
+      }
+      if (state.step === COMPLETED_STEP) continue;
+      if ((await loadSupportThread(chatId, env))?.paused) continue; // a person is handling this chat
+
+      const idleMs = now - Date.parse(state.last_activity_at ?? state.started_at);
+      if (idleMs >= abandonAfter) {
+        await reportAbandoned(chatId, state, env, ctx);
+        continue;
+      }
+
+      const sent = state.reminders_sent ?? 0;
+      if (sent < reminderAfter.length && idleMs >= reminderAfter[sent]) {
+        const next = { ...state, reminders_sent: sent + 1 };
+        logEvent(next, "reminded", state.step);
+        if (await commitSession(chatId, state.step, next, env)) {
+          await sendReminder(chatId, sent + 1, env);
+        }
+      }
+    } catch (e) {
+      console.error(`Idle sweep failed for chatId ${chatId}:`, e);
+    }
+  }
+
+  if (page.list_complete) {
+    await env.BOT_KV.delete(IDLE_SWEEP_PROGRESS_KEY);
+  } else {
+    await env.BOT_KV.put(IDLE_SWEEP_PROGRESS_KEY, JSON.stringify({ cursor: page.cursor } satisfies IdleSweepProgress));
+  }
+}
+
+/** "Continuar" on a reminder — re-sends the question the candidate stopped at. */
+async function handleResume(chatId: number, reminderMessageId: number | undefined, env: Env): Promise<void> {
+  if (reminderMessageId !== undefined) {
+    await editMessageReplyMarkup(chatId, reminderMessageId, null, env);
+  }
+
+  const state = await loadSession(chatId, env);
+  if (!state || state.step === COMPLETED_STEP) {
+    await sendMessage(
+      chatId,
+      "⚠️ Tu sesión ha expirado. Usa el enlace de tu correo para iniciar de nuevo.",
+      null,
+      env,
+    );
+    return;
+  }
+
+  const flow = await loadSessionFlow(state, env);
+
+  // Resuming counts as activity, so the abandonment deadline restarts;
+  // the question is re-sent at the bottom of the chat
+  const resumed: SessionState = { ...state, last_activity_at: new Date().toISOString() };
+  logEvent(resumed, "resumed", state.step);
+  delete resumed.reply_keyboard;
+  delete resumed.question_message_id;
+  if (!(await commitSession(chatId, state.step, resumed, env))) {
+    return;
+  }
+  await retireActiveMessage(chatId, state, env);
+  await presentStep(chatId, resumed, flow, env);
+}
+
+// ---------------------------------------------------------------------------
+// Privacy — consent step, /borrar_datos and the retention purge
 // ---------------------------------------------------------------------------
 
-const TG_API_BASE = "https://api.telegram.org/bot";
+function consentText(env: Env): string {
+  const url = escapeHtml(env.PRIVACY_POLICY_URL ?? "").replaceAll('"', "&quot;");
+  return (
+    "🔒 Antes de empezar: guardaremos tus respuestas para evaluar tu aplicación, como explica nuestra " +
+    `<a href="${url}">política de privacidad</a>.\n\n¿Aceptas?`
+  );
+}
+
+async function sendConsentScreen(chatId: number, env: Env): Promise<SentMessage> {
+  return sendMessage(
+    chatId,
+    consentText(env),
+    {
+      inline_keyboard: [
+        [{ text: "✅ Acepto", callback_data: CONSENT_ACCEPT_DATA }],
+        [{ text: "❌ No acepto", callback_data: CONSENT_DECLINE_DATA }],
+      ],
+    },
+    env,
+  );
+}
+
+/**
+ * A tap on the consent screen: "Acepto" moves on to the first question,
+ * "No acepto" closes the screening and reports it as "declined_consent".
+ */
+async function handleConsent(
+  data: string,
+  state: SessionState,
+  flow: FlowDefinition,
+  chatId: number,
+  env: Env,
+  ctx: BackgroundTasks,
+): Promise<void> {
+  if (data === CONSENT_DECLINE_DATA) {
+    const closed = await closeIncompleteSession(chatId, state, "declined_consent", env);
+    if (!closed) return;
+    await retireActiveMessage(chatId, state, env, `${consentText(env)}\n\n❌ <i>No acepto</i>`);
+    await queueResult(closed.payload, env, ctx);
+    ctx.waitUntil(recordMetrics(resultCounters(closed.payload, closed.flow), closed.payload.campaign, env));
+    await sendMessage(
+      chatId,
+      "👌 Entendido. Sin tu autorización no podemos continuar con el pre-filtro.\n" +
+        "Si cambias de opinión, abre de nuevo el enlace de tu correo. 🙏",
+      null,
+      env,
+    );
+    await deleteSession(chatId, env);
+    return;
+  }
+  if (data !== CONSENT_ACCEPT_DATA) return; // stale button
+
+  const previousState = { ...state };
+  state.consent_at = new Date().toISOString();
+  state.last_activity_at = state.consent_at;
+  state.step = flow.questions[0].id;
+  logEvent(state, "answered", CONSENT_STEP);
+  delete state.question_message_id;
+  if (!(await commitSession(chatId, CONSENT_STEP, state, env))) {
+    return;
+  }
+  ctx.waitUntil(recordMetrics([`reached:${state.step}`], state.campaign, env));
+  await retireActiveMessage(chatId, previousState, env, `${consentText(env)}\n\n✅ <i>Acepto</i>`);
+  await presentStep(chatId, state, flow, env);
+}
+
+/** /borrar_datos — asks for confirmation before anything is deleted. */
+async function handleDeleteDataCommand(chatId: number, env: Env): Promise<void> {
+  await sendMessage(
+    chatId,
+    "🗑️ <b>¿Quieres borrar tus datos?</b>\n\n" +
+      "Borraremos tus respuestas, tu pre-filtro en curso, tu entrevista agendada y tu historial, " +
+      "y pediremos a nuestro equipo borrar sus copias. Tu enlace de aplicación dejará de funcionar.\n\n" +
+      "Esta acción no se puede deshacer.",
+    {
+      inline_keyboard: [
+        [{ text: "🗑️ Sí, borrar mis datos", callback_data: DELETE_DATA_CONFIRM_DATA }],
+        [{ text: "↩️ No, conservarlos", callback_data: DELETE_DATA_CANCEL_DATA }],
+      ],
+    },
+    env,
+  );
+}
+
+/** The buttons under the /borrar_datos prompt. */
+async function handleDeleteDataConfirmation(
+  chatId: number,
+  confirmed: boolean,
+  promptMessageId: number | undefined,
+  env: Env,
+  ctx: BackgroundTasks,
+): Promise<void> {
+  if (promptMessageId !== undefined) {
+    await editMessageReplyMarkup(chatId, promptMessageId, null, env);
+  }
+  if (!confirmed) {
+    await sendMessage(chatId, "👌 Listo, no borramos nada.", null, env);
+    return;
+  }
+
+  // Take the keyboard off an unfinished question; a reply keyboard goes with the last message
+  const session = await loadSession(chatId, env);
+  if (session && !session.reply_keyboard) {
+    await retireActiveMessage(chatId, session, env);
+  }
+
+  const notice = await eraseChatData(chatId, env);
+  await queueResult(notice, env, ctx);
+  await sendMessage(
+    chatId,
+    "✅ Tus datos fueron borrados. Gracias por tu interés en SpanishVIP. 💛",
+    session?.reply_keyboard ? { remove_keyboard: true } : null,
+    env,
+  );
+}
+
+/**
+ * Deletes everything stored about a chat: its session and rate-limit window,
+ * screening history, interview booking, the applicant records bound to it,
+ * its stored results, its support topic, and the candidate cards and
+ * undelivered results of its screenings.
+ * Returns the notice to send to Make.
+ */
+async function eraseChatData(chatId: number, env: Env): Promise<DeletionNotice> {
+  const session = await loadSession(chatId, env);
+  const history = await loadScreeningHistory(chatId, env);
+  const interview = await loadInterviewContext(chatId, env);
+
+  const tokens = new Set(history.map((r) => r.applicant_token));
+  if (session) tokens.add(session.applicant_token);
+  if (interview) tokens.add(interview.applicant_token);
+  const resultIds = new Set(history.flatMap((r) => (r.result_id ? [r.result_id] : [])));
+  if (interview) resultIds.add(interview.payload.idempotency_key);
+  for (const id of await deleteStoredResults(chatId, env)) resultIds.add(id);
+
+  // Free the interview slot so it can be offered to someone else
+  const calendar = interviewCalendarStub(env);
+  if (calendar && interview?.slot_id) {
+    await calendar.cancel(interview.applicant_token);
+  }
+
+  const staffChatId = Number(env.STAFF_CHAT_ID);
+  for (const id of resultIds) {
+    const card = await loadCandidateCard(id, env);
+    if (card?.staff_message_id !== undefined && env.STAFF_CHAT_ID && Number.isFinite(staffChatId)) {
+      await editMessageText(staffChatId, card.staff_message_id, "🗑️ <i>El candidato borró sus datos.</i>", null, env);
+    }
+    await env.BOT_KV.delete(`${CANDIDATE_CARD_KEY_PREFIX}${id}`);
+    await env.BOT_KV.delete(`${OUTBOX_KEY_PREFIX}${id}`);
+    await env.BOT_KV.delete(`${DEAD_LETTER_KEY_PREFIX}${id}`);
+  }
 
-async function sendMessage(
-  chatId: number,
-  text: string,
-  replyMarkup: object | null,
-  env: Env,
-): Promise<void> {
-  const body: Record<string, unknown> = {
-    chat_id: chatId,
-    text,
-    parse_mode: "HTML",
-  };
-  if (replyMarkup) {
-    body.reply_markup = replyMarkup;
+  for (const token of tokens) {
+    const applicant = await loadApplicant(token, env);
+    if (applicant?.chat_id === chatId) {
+      await env.BOT_KV.delete(`${APPLICANT_KEY_PREFIX}${token}`);
+    }
   }
 
-  const resp = await fetch(`${TG_API_BASE}${env.BOT_TOKEN}/sendMessage`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
-  });
+  // The support topic holds the conversation with staff
+  const thread = await loadSupportThread(chatId, env);
+  if (thread) {
+    await callTelegram("deleteForumTopic", { chat_id: supportChatId(env), message_thread_id: thread.thread_id }, env);
+    await deleteSupportThread(thread, env);
+  }
+
+  await deleteSession(chatId, env);
+  await env.BOT_KV.delete(`rl:${chatId}`);
+  await env.BOT_KV.delete(`${SCREENING_HISTORY_KEY_PREFIX}${chatId}`);
+  await env.BOT_KV.delete(`${INTERVIEW_CONTEXT_KEY_PREFIX}${chatId}`);
+
+  return {
+    event: "data_deleted",
+    telegram_chat_id: chatId,
+    applicant_tokens: [...tokens],
+    result_ids: [...resultIds],
+    idempotency_key: crypto.randomUUID(),
+    deleted_at: new Date().toISOString(),
+  };
+}
+
+/** Checks one listed key against the retention cutoff, deleting what has expired. */
+type PurgeKey = (key: KVNamespaceListKey<unknown>, cutoff: number, env: Env) => Promise<void>;
+
+/**
+ * Deletes a JSON record whose latest timestamp (ISO-8601) is before the
+ * cutoff. Unreadable records are left alone.
+ */
+function purgeByTimestamps<T>(timestamps: (record: T) => Array<string | undefined>): PurgeKey {
+  return async (key, cutoff, env) => {
+    const raw = await env.BOT_KV.get(key.name);
+    if (!raw) return;
+    try {
+      const latest = Math.max(...timestamps(JSON.parse(raw) as T).map((t) => (t ? Date.parse(t) : 0)));
+      if (latest < cutoff) await env.BOT_KV.delete(key.name);
+    } catch (e) {
+      console.error(`Retention purge skipped ${key.name}:`, e);
+    }
+  };
+}
 
-  if (!resp.ok) {
-    const errText = await resp.text();
-    console.error(`sendMessage to chatId ${chatId} failed (${resp.status}):`, errText);
+/** Stored results are dated by their key, so they needn't be read. */
+async function purgeStoredResult(key: KVNamespaceListKey<unknown>, cutoff: number, env: Env): Promise<void> {
+  if (storedResultTime(key.name) >= cutoff) return;
+  await env.BOT_KV.delete(key.name);
+  const metadata = key.metadata as StoredResultMetadata | undefined;
+  if (metadata) {
+    await env.BOT_KV.delete(`${RESULT_CHAT_INDEX_PREFIX}${metadata.chat_id}:${key.name.slice(RESULT_KEY_PREFIX.length)}`);
   }
 }
 
-async function answerCallbackQuery(
-  callbackQueryId: string,
-  env: Env,
-  text?: string,
-): Promise<void> {
-  const body: Record<string, unknown> = { callback_query_id: callbackQueryId };
-  if (text) {
-    body.text = text;
-    body.show_alert = false;
+/** Histories keep their entries inside the retention period. */
+async function purgeScreeningHistory(key: KVNamespaceListKey<unknown>, cutoff: number, env: Env): Promise<void> {
+  const chatId = Number(key.name.slice(SCREENING_HISTORY_KEY_PREFIX.length));
+  const history = await loadScreeningHistory(chatId, env);
+  const kept = history.filter((r) => Date.parse(r.completed_at) >= cutoff);
+  if (kept.length === history.length) return;
+  if (kept.length === 0) {
+    await env.BOT_KV.delete(key.name);
+  } else {
+    await env.BOT_KV.put(key.name, JSON.stringify(kept));
   }
+}
 
-  const resp = await fetch(`${TG_API_BASE}${env.BOT_TOKEN}/answerCallbackQuery`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
-  });
+const PURGE_STAGES: Array<{ prefix: string; purge: PurgeKey }> = [
+  {
+    prefix: APPLICANT_KEY_PREFIX,
+    purge: purgeByTimestamps<ApplicantRecord>((r) => [r.created_at, r.started_at, r.completed_at, r.recruiter_decision?.at]),
+  },
+  {
+    prefix: CANDIDATE_CARD_KEY_PREFIX,
+    purge: purgeByTimestamps<CandidateCard>((c) => [c.payload.completed_at, c.decision?.at]),
+  },
+  {
+    prefix: INTERVIEW_CONTEXT_KEY_PREFIX,
+    purge: purgeByTimestamps<InterviewContext>((c) => [c.payload.completed_at]),
+  },
+  { prefix: DEAD_LETTER_KEY_PREFIX, purge: purgeByTimestamps<OutboxEntry>((e) => [e.created_at]) },
+  { prefix: RESULT_KEY_PREFIX, purge: purgeStoredResult },
+  { prefix: SCREENING_HISTORY_KEY_PREFIX, purge: purgeScreeningHistory },
+];
+
+/**
+ * Deletes applicant records, candidate cards, interview contexts, stored and
+ * dead-lettered results and screening history entries older than
+ * DATA_RETENTION_DAYS. Each call handles at most PURGE_BATCH_SIZE keys and
+ * saves where it stopped: the daily cron starts a pass (or continues one),
+ * the outbox cron only continues. Does nothing when DATA_RETENTION_DAYS isn't set.
+ */
+async function purgeExpiredData(env: Env, startPass: boolean): Promise<void> {
+  const days = parseFloat(env.DATA_RETENTION_DAYS ?? "");
+  if (!Number.isFinite(days) || days <= 0) return;
+
+  let progress: PurgeProgress | null = null;
+  const raw = await env.BOT_KV.get(PURGE_PROGRESS_KEY);
+  if (raw) {
+    try {
+      progress = JSON.parse(raw) as PurgeProgress;
+    } catch (e) {
+      console.error("Failed to parse retention purge progress:", e);
+    }
+  }
+  if (!progress) {
+    if (!startPass) return;
+    progress = { cutoff: Date.now() - days * 24 * 60 * 60 * 1000, stage: 0 };
+  }
+
+  let budget = PURGE_BATCH_SIZE;
+  while (budget > 0 && progress.stage < PURGE_STAGES.length) {
+    const stage = PURGE_STAGES[progress.stage];
+    const page = await env.BOT_KV.list({ prefix: stage.prefix, cursor: progress.cursor, limit: budget });
+    for (const key of page.keys) {
+      await stage.purge(key, progress.cutoff, env);
+    }
+    budget -= page.keys.length;
+    if (page.list_complete) {
+      progress.stage += 1;
+      delete progress.cursor;
+    } else {
+      progress.cursor = page.cursor;
+    }
+  }
 
-  if (!resp.ok) {
-    const errText = await resp.text();
-    console.error(`answerCallbackQuery (${callbackQueryId}) failed (${resp.status}):`, errText);
+  if (progress.stage < PURGE_STAGES.length) {
+    await env.BOT_KV.put(PURGE_PROGRESS_KEY, JSON.stringify(progress));
+  } else {
+    await env.BOT_KV.delete(PURGE_PROGRESS_KEY);
   }
 }
 
 // ---------------------------------------------------------------------------
-// Conversation helpers
+// Support bridge — candidates talk to staff through forum topics
 // ---------------------------------------------------------------------------
 
-async function sendQuestion(chatId: number, questionIndex: number, env: Env): Promise<void> {
-  const question = QUESTIONS[questionIndex];
-  if (question.buttons.length === 0) {
-    // Q7 age — no buttons, just text prompt
-    await sendMessage(chatId, question.text, null, env);
-    return;
+/** The support group's chat id, or null when the bridge isn't configured. */
+function supportChatId(env: Env): number | null {
+  const chatId = Number(env.SUPPORT_CHAT_ID);
+  return env.SUPPORT_CHAT_ID && Number.isFinite(chatId) ? chatId : null;
+}
+
+async function loadSupportThread(chatId: number, env: Env): Promise<SupportThread | null> {
+  if (supportChatId(env) === null) return null;
+  const raw = await env.BOT_KV.get(`${SUPPORT_THREAD_KEY_PREFIX}${chatId}`);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as SupportThread;
+  } catch (e) {
+    console.error(`Failed to parse support thread for chatId ${chatId}:`, e);
+    return null;
   }
-  const inlineKeyboard = {
-    inline_keyboard: question.buttons.map((row) =>
-      row.map((btn) => ({ text: btn.text, callback_data: btn.data })),
-    ),
-  };
-  await sendMessage(chatId, question.text, inlineKeyboard, env);
 }
 
-/**
- * Pure function — checks if the given answer to the given step triggers a fail.
- * Returns the user-facing Spanish failure message, or null if the answer passes.
- */
-function checkFailCondition(
-  step: Step,
-  answer: string,
-  minWeeklyHours: number,
-): string | null {
-  switch (step) {
-    case "q1_team_role":
-      if (answer === "no") {
-        return (
-          "💛 ¡Gracias por tu interés!\n" +
-          "En este momento buscamos candidatos para un rol fijo de equipo.\n" +
-          "🙏 Te deseamos mucho éxito."
-        );
-      }
-      break;
+/** Saves both mappings; every message renews their expiry. */
+async function saveSupportThread(thread: SupportThread, env: Env): Promise<void> {
+  const options = { expirationTtl: SUPPORT_THREAD_TTL_SECONDS };
+  await env.BOT_KV.put(`${SUPPORT_THREAD_KEY_PREFIX}${thread.chat_id}`, JSON.stringify(thread), options);
+  await env.BOT_KV.put(`${SUPPORT_TOPIC_KEY_PREFIX}${thread.thread_id}`, String(thread.chat_id), options);
+}
 
-    case "q2_weekly_hours": {
-      const hours = HOURS_MAP[answer] ?? 0;
-      if (hours < minWeeklyHours) {
-        return (
-          "💛 ¡Gracias!\n" +
-          `En este momento necesitamos un compromiso mínimo de ${minWeeklyHours} horas semanales.\n` +
-          "🙏 Te agradecemos tu tiempo."
-        );
-      }
-      break;
-    }
+async function deleteSupportThread(thread: SupportThread, env: Env): Promise<void> {
+  await env.BOT_KV.delete(`${SUPPORT_THREAD_KEY_PREFIX}${thread.chat_id}`);
+  await env.BOT_KV.delete(`${SUPPORT_TOPIC_KEY_PREFIX}${thread.thread_id}`);
+}
 
-    case "q4_setup":
-      if (answer === "no") {
-        return (
-          "💛 ¡Gracias!\n" +
-          "Para este rol es necesario contar con internet estable y un espacio tranquilo.\n" +
-          "🙏 Te deseamos lo mejor."
-        );
-      }
-      break;
+/** Text, media or a file — service messages (topic created, member joined…) can't be copied. */
+function isRelayableMessage(message: TelegramMessage): boolean {
+  return (
+    message.text !== undefined ||
+    message.caption !== undefined ||
+    [message.photo, message.document, message.audio, message.sticker, message.voice, message.video, message.video_note]
+      .some((field) => field !== undefined)
+  );
+}
 
-    case "q5_sop":
-      if (answer === "no") {
-        return (
-          "💛 ¡Gracias!\n" +
-          "Es importante seguir el currículum y los SOPs del equipo.\n" +
-          "🙏 Te agradecemos tu interés."
-        );
-      }
-      break;
+async function sendToTopic(threadId: number, text: string, env: Env): Promise<void> {
+  await callTelegram(
+    "sendMessage",
+    { chat_id: supportChatId(env), message_thread_id: threadId, text, parse_mode: "HTML" },
+    env,
+  );
+}
 
-    case "q6_english":
-      if (answer === "low") {
-        return (
-          "💛 ¡Gracias!\n" +
-          "Para este rol necesitamos al menos un nivel intermedio de inglés.\n" +
-          "🙏 Te deseamos mucho éxito."
-        );
-      }
-      break;
-  }
-  return null;
+/** Opens a topic for the candidate, introduced with who they are and their latest screening. */
+async function openSupportThread(chatId: number, from: TelegramUser, env: Env): Promise<SupportThread | null> {
+  const name = `${from.first_name}${from.username ? ` (@${from.username})` : ""} · ${chatId}`;
+  const created = await callTelegram(
+    "createForumTopic",
+    { chat_id: supportChatId(env), name: name.slice(0, SUPPORT_TOPIC_NAME_MAX) },
+    env,
+  );
+  const threadId = created.ok ? (created.result as { message_thread_id?: number }).message_thread_id : undefined;
+  if (threadId === undefined) return null;
+
+  const thread: SupportThread = { chat_id: chatId, thread_id: threadId, opened_at: new Date().toISOString() };
+  await saveSupportThread(thread, env);
+
+  const lines = [
+    "💬 <b>Nueva conversación</b>",
+    "",
+    `👤 <b>Nombre:</b> ${escapeHtml(from.first_name)}`,
+    `💬 <b>Usuario:</b> ${from.username ? "@" + escapeHtml(from.username) : "—"}`,
+  ];
+  const last = (await loadScreeningHistory(chatId, env)).at(-1);
+  const applicant = last ? await loadApplicant(last.applicant_token, env) : null;
+  if (applicant?.email) lines.push(`📧 <b>Correo:</b> ${escapeHtml(applicant.email)}`);
+  if (last) lines.push(`📊 <b>Último pre-filtro:</b> ${last.result} (${last.completed_at.slice(0, 10)})`);
+  lines.push(
+    "",
+    "Respondan en este tema y el bot le enviará el mensaje.",
+    "/pausar — el bot deja de responderle · /cerrar — terminar la conversación",
+  );
+  await sendToTopic(threadId, lines.join("\n"), env);
+  return thread;
 }
 
 /**
- * Posts result to Make.com, sends user-facing message, and cleans up KV session.
+ * Copies a candidate's message into their support topic, opening one on the
+ * first message. Returns false when the bridge is off or the message couldn't
+ * be forwarded, so the caller replies as before.
  */
-async function reportResult(
-  result: "pass" | "fail",
-  reason: string,
-  state: SessionState,
+async function forwardToSupport(
   chatId: number,
   from: TelegramUser,
+  message: TelegramMessage,
   env: Env,
-): Promise<void> {
-  const payload: ResultPayload = {
-    applicant_token: state.applicant_token,
-    telegram_chat_id: chatId,
-    telegram_username: from.username,
-    result,
-    reason,
-    answers: state.answers,
-    completed_at: new Date().toISOString(),
-  };
+): Promise<boolean> {
+  const supportChat = supportChatId(env);
+  if (supportChat === null || !isRelayableMessage(message)) return false;
 
-  // Fire-and-forget — don't await external webhook, keep UX fast
-  fetch(env.MAKE_WEBHOOK_URL, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(payload),
-  }).catch((e) => console.error("Make.com webhook POST failed:", e));
+  let thread = await loadSupportThread(chatId, env);
+  const isNew = !thread;
+  thread ??= await openSupportThread(chatId, from, env);
+  if (!thread) return false;
 
-  // Send user-facing result message
-  if (result === "pass") {
-    const waLink = env.MARIA_WA_ME_LINK;
-    if (!waLink) {
-      console.error("MARIA_WA_ME_LINK is not configured — omitting WhatsApp link from PASS message");
+  const copied = await callTelegram(
+    "copyMessage",
+    { chat_id: supportChat, message_thread_id: thread.thread_id, from_chat_id: chatId, message_id: message.message_id },
+    env,
+  );
+  if (!copied.ok && !copied.error.queued) {
+    // Only a deleted topic drops the mapping (the next message opens a new
+    // one); other failures keep it, and the paused flag with it
+    if (SUPPORT_TOPIC_GONE_PATTERN.test(copied.error.description)) {
+      await deleteSupportThread(thread, env);
     }
-    const linkLine = waLink ? `👉 Escribe aquí a <b>Maria Camila</b> por WhatsApp:\n${waLink}\n\n` : "";
+    return false;
+  }
+  await saveSupportThread(thread, env);
+
+  if (isNew) {
     await sendMessage(
       chatId,
-      "🎉 <b>¡Excelente! Has pasado el pre-filtro</b> ✅\n\n" +
-        "🧑‍💼 Siguiente paso: hablar con una persona del equipo para coordinar tu <b>primera entrevista</b>.\n\n" +
-        linkLine +
-        "💬 <i>Mensaje sugerido:</i>\n" +
-        '"Hola Maria, pasé el pre-filtro de SpanishVIP. Mi nombre es ___ y mi correo es ___."',
+      "💬 Recibimos tu mensaje. Una persona de nuestro equipo te responderá por aquí pronto.\n\n" +
+        "Si aún no haces tu pre-filtro, usa el enlace que recibiste por correo.",
+      null,
+      env,
+    );
+  }
+  return true;
+}
+
+/**
+ * A message in the support group: staff replies in a candidate's topic are
+ * copied to the candidate; /pausar and /cerrar act on the conversation.
+ * Anything outside a candidate topic is ignored.
+ */
+async function handleSupportMessage(message: TelegramMessage, env: Env): Promise<void> {
+  const supportChat = supportChatId(env);
+  const threadId = message.message_thread_id;
+  if (supportChat === null || threadId === undefined) return;
+
+  const mapped = await env.BOT_KV.get(`${SUPPORT_TOPIC_KEY_PREFIX}${threadId}`);
+  const thread = mapped ? await loadSupportThread(Number(mapped), env) : null;
+  if (!thread || thread.thread_id !== threadId) return;
+
+  const staffName = message.from?.username ? `@${message.from.username}` : (message.from?.first_name ?? "staff");
+  const command = (message.text ?? "").trim().split(/[\s@]/)[0];
+
+  if (command === "/pausar") {
+    thread.paused = true;
+    await saveSupportThread(thread, env);
+    await sendToTopic(
+      threadId,
+      `⏸️ ${escapeHtml(staffName)} pausó el bot: los mensajes del candidato llegan aquí y el bot no le ` +
+        "responde ni envía recordatorios. Usa /cerrar para terminar.",
+      env,
+    );
+    return;
+  }
+
+  if (command === "/cerrar") {
+    await deleteSupportThread(thread, env);
+    await sendMessage(
+      thread.chat_id,
+      "✅ Conversación cerrada. ¡Gracias por escribirnos! Si tienes otra pregunta, escríbenos aquí cuando quieras.",
       null,
       env,
     );
+    await sendToTopic(threadId, `🔒 Conversación cerrada por ${escapeHtml(staffName)}.`, env);
+    await callTelegram("closeForumTopic", { chat_id: supportChat, message_thread_id: threadId }, env);
+    return;
+  }
+
+  if (!isRelayableMessage(message)) return;
+  const copied = await callTelegram(
+    "copyMessage",
+    { chat_id: thread.chat_id, from_chat_id: supportChat, message_id: message.message_id },
+    env,
+  );
+  if (copied.ok) {
+    await saveSupportThread(thread, env);
   } else {
-    // reason already contains the full user-facing Spanish message
-    await sendMessage(chatId, reason, null, env);
+    await sendToTopic(
+      threadId,
+      copied.error.status === 403
+        ? "⚠️ No se pudo entregar: el candidato bloqueó el bot."
+        : `⚠️ No se pudo entregar el mensaje (${escapeHtml(copied.error.description)}).`,
+      env,
+    );
   }
+}
 
-  // Mark completed and clean up — mark first so stale callbacks are idempotent
-  state.step = "completed";
-  await saveSession(chatId, state, env);
-  await deleteSession(chatId, env);
+// ---------------------------------------------------------------------------
+// Funnel metrics — aggregate counters per day and campaign
+// ---------------------------------------------------------------------------
+
+/**
+ * Single global instance holding the funnel counters. They live in the
+ * object's own storage, so recording an event costs no KV writes.
+ */
+export class FunnelMetrics extends DurableObject<Env> {
+  async record(event: MetricsEvent): Promise<void> {
+    const bucket = `${event.day}|${encodeURIComponent(event.campaign)}`;
+    const keys = [...new Set(event.counters)].map((c) => `${METRICS_COUNTER_KEY_PREFIX}${bucket}|${c}`);
+    const current = await this.ctx.storage.get<number>(keys);
+    await this.ctx.storage.put(Object.fromEntries(keys.map((key) => [key, (current.get(key) ?? 0) + 1])));
+
+    if (event.completion_seconds !== undefined) {
+      const key = `${METRICS_DURATION_KEY_PREFIX}${bucket}`;
+      const durations = (await this.ctx.storage.get<number[]>(key)) ?? [];
+      durations.push(event.completion_seconds);
+      await this.ctx.storage.put(key, durations);
+    }
+  }
+
+  /** Buckets whose day falls in [from, to] (YYYY-MM-DD, inclusive), oldest first. */
+  async buckets(from: string, to: string): Promise<MetricsBucket[]> {
+    const byId = new Map<string, MetricsBucket>();
+    const bucketFor = (day: string, campaign: string): MetricsBucket => {
+      let bucket = byId.get(`${day}|${campaign}`);
+      if (!bucket) {
+        bucket = { day, campaign: decodeURIComponent(campaign), counters: {}, completion_seconds: [] };
+        byId.set(`${day}|${campaign}`, bucket);
+      }
+      return bucket;
+    };
+
+    // "~" sorts after "|", so the end bound takes in every campaign of the `to` day
+    const counters = await this.ctx.storage.list<number>({
+      start: `${METRICS_COUNTER_KEY_PREFIX}${from}`,
+      end: `${METRICS_COUNTER_KEY_PREFIX}${to}~`,
+    });
+    for (const [key, count] of counters) {
+      const [day, campaign, ...counter] = key.slice(METRICS_COUNTER_KEY_PREFIX.length).split("|");
+      bucketFor(day, campaign).counters[counter.join("|")] = count;
+    }
+
+    const durations = await this.ctx.storage.list<number[]>({
+      start: `${METRICS_DURATION_KEY_PREFIX}${from}`,
+      end: `${METRICS_DURATION_KEY_PREFIX}${to}~`,
+    });
+    for (const [key, seconds] of durations) {
+      const [day, campaign] = key.slice(METRICS_DURATION_KEY_PREFIX.length).split("|");
+      bucketFor(day, campaign).completion_seconds = seconds;
+    }
+
+    return [...byId.values()].sort((a, b) => a.day.localeCompare(b.day) || a.campaign.localeCompare(b.campaign));
+  }
+}
+
+/** Returns the metrics Durable Object, or null when metrics aren't configured. */
+function funnelMetricsStub(env: Env): DurableObjectStub<FunnelMetrics> | null {
+  if (!env.FUNNEL_METRICS) return null;
+  return env.FUNNEL_METRICS.get(env.FUNNEL_METRICS.idFromName(METRICS_INSTANCE_NAME));
+}
+
+/** Counts a funnel event in today's bucket. Best-effort: failures are only logged. */
+async function recordMetrics(
+  counters: string[],
+  campaign: string | undefined,
+  env: Env,
+  completionSeconds?: number,
+): Promise<void> {
+  const metrics = funnelMetricsStub(env);
+  if (!metrics || counters.length === 0) return;
+  try {
+    await metrics.record({
+      day: new Date().toISOString().slice(0, 10),
+      campaign: campaign ?? "",
+      counters,
+      completion_seconds: completionSeconds,
+    });
+  } catch (e) {
+    console.error("Failed to record funnel metrics:", e);
+  }
+}
+
+/** Counters for a reported result: the outcome, where it failed or stopped, and the answers given. */
+function resultCounters(payload: ResultPayload, flow: FlowDefinition): string[] {
+  const counters = [`result:${payload.result}`];
+  if (payload.result === "abandoned") {
+    counters.push(`abandoned_at:${payload.last_step}`);
+  } else if (payload.result === "fail") {
+    counters.push(`failed:${payload.failed_step ?? "score"}`);
+  }
+
+  // Only inputs with a bounded set of values — free text, contacts and recordings are personal
+  for (const question of flow.questions) {
+    const value = payload.answers[question.answer_key];
+    if (value === undefined || !["choice", "multi_select", "number"].includes(question.input)) continue;
+    for (const v of answerValues(value)) {
+      counters.push(`answer:${question.answer_key}=${v}`);
+    }
+  }
+  return counters;
+}
+
+/** Pure function — turns raw counters (see resultCounters) into funnel numbers. */
+function summarizeMetrics(counters: Record<string, number>, completionSeconds: number[]): FunnelSummary {
+  const summary: FunnelSummary = {
+    started: counters.started ?? 0,
+    reached: {},
+    answers: {},
+    results: {},
+    fail_reasons: {},
+    abandoned_at: {},
+    completed: 0,
+    pass_rate: null,
+    median_completion_seconds: null,
+  };
+
+  for (const [counter, count] of Object.entries(counters)) {
+    const separator = counter.indexOf(":");
+    const kind = counter.slice(0, separator);
+    const name = counter.slice(separator + 1);
+    switch (kind) {
+      case "reached":
+        summary.reached[name] = count;
+        break;
+      case "result":
+        summary.results[name] = count;
+        if (name in TIER_DEFAULTS) summary.completed += count;
+        break;
+      case "failed":
+        summary.fail_reasons[name] = count;
+        break;
+      case "abandoned_at":
+        summary.abandoned_at[name] = count;
+        break;
+      case "answer": {
+        const equals = name.indexOf("=");
+        (summary.answers[name.slice(0, equals)] ??= {})[name.slice(equals + 1)] = count;
+        break;
+      }
+    }
+  }
+
+  if (summary.completed > 0) {
+    const passed = (summary.results.strong_pass ?? 0) + (summary.results.pass ?? 0);
+    summary.pass_rate = Math.round((passed / summary.completed) * 1000) / 1000;
+  }
+  if (completionSeconds.length > 0) {
+    const sorted = [...completionSeconds].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    summary.median_completion_seconds =
+      sorted.length % 2 === 1 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+  }
+  return summary;
+}
+
+/**
+ * Quotes a CSV cell. Text starting with = + - @ (or a tab or CR) gets a
+ * leading ' so a spreadsheet shows it instead of evaluating it as a formula.
+ */
+function csvField(value: string | number | null): string {
+  let text = value === null ? "" : String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+/** One row per number in a summary: day, campaign, metric, key, value. */
+function metricsCsvRows(day: string, campaign: string, summary: FunnelSummary): string[] {
+  const rows: Array<[string, string, number | null]> = [
+    ["started", "", summary.started],
+    ["completed", "", summary.completed],
+    ["pass_rate", "", summary.pass_rate],
+    ["median_completion_seconds", "", summary.median_completion_seconds],
+  ];
+  for (const [step, count] of Object.entries(summary.reached)) rows.push(["reached", step, count]);
+  for (const [result, count] of Object.entries(summary.results)) rows.push(["result", result, count]);
+  for (const [step, count] of Object.entries(summary.fail_reasons)) rows.push(["failed", step, count]);
+  for (const [step, count] of Object.entries(summary.abandoned_at)) rows.push(["abandoned_at", step, count]);
+  for (const [answerKey, values] of Object.entries(summary.answers)) {
+    for (const [value, count] of Object.entries(values)) rows.push([`answer:${answerKey}`, value, count]);
+  }
+  return rows.map(([metric, key, value]) => [day, campaign, metric, key, value].map(csvField).join(","));
+}
+
+/**
+ * Reads the from / to query parameters (YYYY-MM-DD, inclusive). `to`
+ * defaults to today and `from` to `defaultDays` before it.
+ */
+function parseDayRange(
+  url: URL,
+  defaultDays: number,
+  maxDays: number,
+): { ok: true; from: string; to: string } | { ok: false; error: string } {
+  const to = url.searchParams.get("to") ?? new Date().toISOString().slice(0, 10);
+  if (!METRICS_DAY_PATTERN.test(to) || isNaN(Date.parse(to))) {
+    return { ok: false, error: "to must be a YYYY-MM-DD date" };
+  }
+  const from =
+    url.searchParams.get("from") ??
+    new Date(Date.parse(to) - (defaultDays - 1) * 86_400_000).toISOString().slice(0, 10);
+  if (!METRICS_DAY_PATTERN.test(from) || isNaN(Date.parse(from))) {
+    return { ok: false, error: "from must be a YYYY-MM-DD date" };
+  }
+  const days = (Date.parse(to) - Date.parse(from)) / 86_400_000 + 1;
+  if (days < 1 || days > maxDays) {
+    return { ok: false, error: `from..to must span 1 to ${maxDays} days` };
+  }
+  return { ok: true, from, to };
+}
+
+/**
+ * GET /admin/metrics?from=YYYY-MM-DD&to=YYYY-MM-DD&campaign=<c>&format=csv
+ * Defaults to the last 30 days, every campaign, JSON.
+ */
+async function handleAdminMetrics(url: URL, env: Env): Promise<Response> {
+  const metrics = funnelMetricsStub(env);
+  if (!metrics) {
+    return jsonResponse({ error: "FUNNEL_METRICS is not configured" }, 501);
+  }
+
+  const range = parseDayRange(url, METRICS_DEFAULT_RANGE_DAYS, METRICS_MAX_RANGE_DAYS);
+  if (!range.ok) {
+    return jsonResponse({ error: range.error }, 400);
+  }
+  const { from, to } = range;
+
+  const campaign = url.searchParams.get("campaign");
+  const buckets = (await metrics.buckets(from, to)).filter((b) => campaign === null || b.campaign === campaign);
+
+  const totalCounters: Record<string, number> = {};
+  for (const bucket of buckets) {
+    for (const [counter, count] of Object.entries(bucket.counters)) {
+      totalCounters[counter] = (totalCounters[counter] ?? 0) + count;
+    }
+  }
+  const totals = summarizeMetrics(totalCounters, buckets.flatMap((b) => b.completion_seconds));
+
+  if (url.searchParams.get("format") === "csv") {
+    const lines = [
+      "day,campaign,metric,key,value",
+      ...buckets.flatMap((b) => metricsCsvRows(b.day, b.campaign, summarizeMetrics(b.counters, b.completion_seconds))),
+      ...metricsCsvRows("total", campaign ?? "", totals),
+    ];
+    return new Response(lines.join("\n") + "\n", {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="metrics-${from}-${to}.csv"`,
+      },
+    });
+  }
+
+  return jsonResponse({
+    from,
+    to,
+    campaign,
+    totals,
+    buckets: buckets.map((b) => ({
+      day: b.day,
+      campaign: b.campaign || null,
+      ...summarizeMetrics(b.counters, b.completion_seconds),
+    })),
+  });
 }
 
 // ---------------------------------------------------------------------------
@@ -502,6 +5353,8 @@ async function handleStart(
   from: TelegramUser,
   token: string,
   env: Env,
+  campaign?: string, // from the start link
+  campaignSigned = false, // a signed link's campaign replaces the applicant record's
 ): Promise<void> {
   if (!token || token.trim().length < 4) {
     await sendMessage(
@@ -513,16 +5366,90 @@ async function handleStart(
     return;
   }
 
+  const applicant = await loadApplicant(token.trim(), env);
+  if (!applicant) {
+    await sendMessage(
+      chatId,
+      "⚠️ No encontramos tu aplicación. Revisa que estés usando el enlace exacto que recibiste por correo.",
+      null,
+      env,
+    );
+    return;
+  }
+  if (applicant.chat_id !== undefined && applicant.chat_id !== chatId) {
+    await sendMessage(
+      chatId,
+      "⚠️ Este enlace ya fue usado desde otra cuenta de Telegram. Si crees que es un error, escríbenos por correo.",
+      null,
+      env,
+    );
+    return;
+  }
+
+  // Completed tokens, retake cooldown and one-token-per-account
+  const history = await loadScreeningHistory(chatId, env);
+  const blocked = retakeBlockMessage(applicant, history, Date.now(), retakeRules(applicant, env));
+  if (blocked) {
+    await sendMessage(chatId, blocked, null, env);
+    return;
+  }
+
+  // Bind the token to this chat on first use; a retake reopens it
+  const isRetake = applicant.status === "completed";
+  const firstStart = applicant.started_at === undefined || isRetake;
+  applicant.chat_id = chatId;
+  applicant.status = "in_progress";
+  if (isRetake) {
+    applicant.started_at = new Date().toISOString();
+    delete applicant.completed_at;
+  }
+  applicant.started_at ??= new Date().toISOString();
+  // The suffix of a raw link can be edited by the applicant, so it only fills
+  // in a campaign the record doesn't have yet
+  if (campaign && (campaignSigned || !applicant.campaign)) applicant.campaign = campaign;
+  await saveApplicant(applicant, env);
+
+  // Disable the keyboard left over from a previous attempt (/restart)
+  const previous = await loadSession(chatId, env);
+  if (previous) {
+    await retireActiveMessage(chatId, previous, env);
+  }
+
+  // New sessions pin the campaign's (or the active) flow version so later
+  // edits don't affect them
+  const campaignConfig = await loadCampaign(applicant.campaign, env);
+  const flow = await loadCampaignFlow(campaignConfig, env);
+  const isRestart = previous?.applicant_token === applicant.applicant_token;
+  const consentAt = isRestart ? previous?.consent_at : undefined;
   const state: SessionState = {
-    applicant_token: token.trim(),
-    step: "q1_team_role",
+    applicant_token: applicant.applicant_token,
+    flow_version: flow.version,
+    step: env.PRIVACY_POLICY_URL && !consentAt ? CONSENT_STEP : flow.questions[0].id,
     answers: {},
     started_at: new Date().toISOString(),
     telegram_username: from.username,
+    campaign: applicant.campaign,
+    // A /restart keeps its reach so funnel steps aren't counted twice
+    furthest_step: previous?.flow_version === flow.version ? (previous.furthest_step ?? 0) : 0,
   };
+  if (consentAt) state.consent_at = consentAt;
+  state.events = isRestart ? [...(previous?.events ?? [])] : [];
+  logEvent(state, isRestart ? "restarted" : "started");
 
   await saveSession(chatId, state, env);
-  await sendQuestion(chatId, 0, env);
+  await markSessionActive(chatId, env);
+  if (firstStart) {
+    await recordMetrics(["started", `reached:${state.step}`], applicant.campaign, env);
+  }
+  await sendMessage(
+    chatId,
+    campaignConfig?.intro_text?.replaceAll("{first_name}", escapeHtml(applicant.first_name)) ??
+      `👋 ¡Hola <b>${escapeHtml(applicant.first_name)}</b>! Gracias por aplicar a SpanishVIP.\n` +
+        "Te haremos unas preguntas rápidas 👇",
+    null,
+    env,
+  );
+  await presentStep(chatId, state, flow, env);
 }
 
 // ---------------------------------------------------------------------------
@@ -532,12 +5459,14 @@ async function handleStart(
 async function handleMessage(
   chatId: number,
   from: TelegramUser,
-  text: string | undefined,
+  message: TelegramMessage,
   env: Env,
+  ctx: BackgroundTasks,
 ): Promise<void> {
   // Rate limit check
   const allowed = await checkRateLimit(chatId, env);
   if (!allowed) {
+    await logRateLimited(chatId, env);
     await sendMessage(
       chatId,
       "⏳ Estás enviando mensajes muy rápido. Espera un momento.",
@@ -547,13 +5476,19 @@ async function handleMessage(
     return;
   }
 
-  const trimmed = (text ?? "").trim();
+  const trimmed = (message.text ?? "").trim();
+
+  // A person took over (/pausar in the support topic): everything goes to
+  // them and the bot stays quiet — except data deletion, which always works
+  if (!trimmed.startsWith("/borrar_datos") && (await loadSupportThread(chatId, env))?.paused) {
+    if (await forwardToSupport(chatId, from, message, env)) return;
+  }
 
-  // /start [token]
+  // /start [token | signed payload]
   if (trimmed.startsWith("/start")) {
     const parts = trimmed.split(/\s+/);
-    const token = parts[1] ?? "";
-    if (!token) {
+    const payload = parts[1] ?? "";
+    if (!payload) {
       await sendMessage(
         chatId,
         "⚠️ Por favor usa el enlace de aplicación para empezar.",
@@ -562,7 +5497,37 @@ async function handleMessage(
       );
       return;
     }
-    await handleStart(chatId, from, token, env);
+
+    if (payload.startsWith(SIGNED_LINK_PREFIX)) {
+      const verified = env.START_LINK_SECRET
+        ? await verifyStartPayload(payload, env.START_LINK_SECRET)
+        : ({ ok: false, error: "invalid" } as const);
+      if (!verified.ok) {
+        await sendMessage(
+          chatId,
+          verified.error === "expired"
+            ? "⌛ Este enlace ha expirado. Escríbenos por correo y te enviaremos uno nuevo. 🙏"
+            : "⚠️ Este enlace no es válido. Asegúrate de abrir el enlace exacto que recibiste por correo.",
+          null,
+          env,
+        );
+        return;
+      }
+      await handleStart(chatId, from, verified.token, env, verified.campaign, true);
+      return;
+    }
+
+    if (env.REQUIRE_SIGNED_LINKS === "true") {
+      await sendMessage(
+        chatId,
+        "⚠️ Este enlace no es válido. Asegúrate de abrir el enlace exacto que recibiste por correo.",
+        null,
+        env,
+      );
+      return;
+    }
+    const start = parseStartToken(payload);
+    await handleStart(chatId, from, start.token, env, start.campaign);
     return;
   }
 
@@ -582,6 +5547,24 @@ async function handleMessage(
     return;
   }
 
+  // /reagendar — pick a different interview slot
+  if (trimmed.startsWith("/reagendar")) {
+    await handleReschedule(chatId, env);
+    return;
+  }
+
+  // /cancelar — cancel the booked interview
+  if (trimmed.startsWith("/cancelar")) {
+    await handleCancelInterview(chatId, env, ctx);
+    return;
+  }
+
+  // /borrar_datos — delete everything stored about this chat
+  if (trimmed.startsWith("/borrar_datos")) {
+    await handleDeleteDataCommand(chatId, env);
+    return;
+  }
+
   // /help
   if (trimmed.startsWith("/help")) {
     await sendMessage(
@@ -590,6 +5573,9 @@ async function handleMessage(
         "Este bot realiza un screening rápido para candidatos a profesor.\n\n" +
         "/start — Iniciar (requiere el enlace de tu correo)\n" +
         "/restart — Reiniciar el screening\n" +
+        "/reagendar — Cambiar el horario de tu entrevista\n" +
+        "/cancelar — Cancelar tu entrevista\n" +
+        "/borrar_datos — Borrar tus datos\n" +
         "/help — Mostrar este mensaje",
       null,
       env,
@@ -599,45 +5585,31 @@ async function handleMessage(
 
   // Check if they're mid-screening
   const session = await loadSession(chatId, env);
-  if (session && session.step !== "completed") {
-    // Q7 age — expects free text
-    if (session.step === "q7_age") {
-      const parsed = parseInt(trimmed, 10);
-      if (isNaN(parsed) || parsed < 10 || parsed > 80) {
-        await sendMessage(
-          chatId,
-          "😊 Por favor escribe tu edad en números (ej: 24).",
-          null,
-          env,
-        );
-        return;
-      }
-
-      session.answers.age = parsed;
+  if (session && session.step !== COMPLETED_STEP) {
+    const flow = await loadSessionFlow(session, env);
+    const stepIndex = flow.questions.findIndex((q) => q.id === session.step);
+    const question = flow.questions[stepIndex];
 
-      if (parsed >= 35) {
-        await reportResult(
-          "fail",
-          "💛 ¡Gracias!\n" +
-            "En este momento estamos buscando candidatos <b>menores de 35 años</b> para este rol.\n" +
-            "🙏 Te agradecemos tu tiempo y tu interés en SpanishVIP.",
-          session,
-          chatId,
-          from,
-          env,
-        );
-        return;
-      }
+    // "⬅️ Atrás" on a contact request's reply keyboard arrives as text
+    if (question?.input === "contact" && trimmed === CONTACT_BACK_TEXT) {
+      await handleNavigation(`${BACK_CALLBACK_PREFIX}${question.id}`, session, flow, chatId, from, env, ctx);
+      return;
+    }
 
-      // Age OK — advance to Q8
-      const nextStepIndex = STEP_ORDER.indexOf("q7_age") + 1;
-      session.step = STEP_ORDER[nextStepIndex];
-      await saveSession(chatId, session, env);
-      await sendQuestion(chatId, nextStepIndex, env);
+    // Typed answers (number, text, email), shared contacts and recordings
+    const parsed = question ? parseTypedAnswer(question, message, from) : null;
+    if (parsed && "error" in parsed) {
+      await logInvalidInput(chatId, session, env);
+      await sendMessage(chatId, parsed.error, null, env);
+      return;
+    }
+    if (parsed) {
+      await applyAnswer(session, flow, stepIndex, parsed.value, chatId, from, env, ctx);
       return;
     }
 
     // Any other step — prompt to use buttons
+    await logInvalidInput(chatId, session, env);
     await sendMessage(
       chatId,
       "👆 Por favor usa los <b>botones</b> para responder.",
@@ -647,7 +5619,10 @@ async function handleMessage(
     return;
   }
 
-  // No active session or already completed
+  // No active session or already completed — a person answers when the support bridge is on
+  if (await forwardToSupport(chatId, from, message, env)) {
+    return;
+  }
   await sendMessage(
     chatId,
     "👋 Para iniciar tu screening, usa el enlace que recibiste por correo.\n\nEscribe /help para más información.",
@@ -660,17 +5635,39 @@ async function handleMessage(
 // Callback query handler (button presses)
 // ---------------------------------------------------------------------------
 
-async function handleCallbackQuery(cq: TelegramCallbackQuery, env: Env): Promise<void> {
+async function handleCallbackQuery(
+  cq: TelegramCallbackQuery,
+  env: Env,
+  ctx: BackgroundTasks,
+): Promise<void> {
   const chatId = cq.from.id;
   const callbackQueryId = cq.id;
   const data = cq.data ?? "";
 
+  // Candidate card buttons pressed in the staff group
+  if (data.startsWith(RECRUITER_CALLBACK_PREFIX)) {
+    await handleRecruiterAction(cq, env);
+    return;
+  }
+
+  // A person took over (/pausar): buttons do nothing until the conversation
+  // is closed — except data deletion, which always works
+  if (
+    data !== DELETE_DATA_CONFIRM_DATA &&
+    data !== DELETE_DATA_CANCEL_DATA &&
+    (await loadSupportThread(chatId, env))?.paused
+  ) {
+    await answerCallbackQuery(callbackQueryId, env, "💬 Una persona de nuestro equipo te está atendiendo por este chat.");
+    return;
+  }
+
   // Always acknowledge immediately to remove Telegram's loading spinner
   await answerCallbackQuery(callbackQueryId, env);
 
   // Rate limit check
   const allowed = await checkRateLimit(chatId, env);
   if (!allowed) {
+    await logRateLimited(chatId, env);
     await sendMessage(
       chatId,
       "⏳ Estás enviando mensajes muy rápido. Espera un momento.",
@@ -680,6 +5677,24 @@ async function handleCallbackQuery(cq: TelegramCallbackQuery, env: Env): Promise
     return;
   }
 
+  // "Continuar" on an idle-session reminder
+  if (data === RESUME_CALLBACK_DATA) {
+    await handleResume(chatId, cq.message?.message_id, env);
+    return;
+  }
+
+  // Interview slot buttons are offered after the session has ended
+  if (data.startsWith(SLOT_CALLBACK_PREFIX)) {
+    await handleSlotSelection(chatId, data.slice(SLOT_CALLBACK_PREFIX.length), cq.message?.message_id, env, ctx);
+    return;
+  }
+
+  // /borrar_datos confirmation — works with or without a session
+  if (data === DELETE_DATA_CONFIRM_DATA || data === DELETE_DATA_CANCEL_DATA) {
+    await handleDeleteDataConfirmation(chatId, data === DELETE_DATA_CONFIRM_DATA, cq.message?.message_id, env, ctx);
+    return;
+  }
+
   // Load session
   const state = await loadSession(chatId, env);
   if (!state) {
@@ -693,76 +5708,359 @@ async function handleCallbackQuery(cq: TelegramCallbackQuery, env: Env): Promise
   }
 
   // Screening already finished — ignore stale button taps
-  if (state.step === "completed") {
+  if (state.step === COMPLETED_STEP) {
     return;
   }
 
-  // Parse callback data format: "Q1_YES" → qPrefix="Q1", callbackSuffix="YES"
-  const underscoreIdx = data.indexOf("_");
-  if (underscoreIdx === -1) {
-    console.error("Unexpected callback_data format (no underscore):", data);
+  const flow = await loadSessionFlow(state, env);
+
+  // Privacy policy buttons shown before the first question
+  if (state.step === CONSENT_STEP) {
+    await handleConsent(data, state, flow, chatId, env, ctx);
     return;
   }
-  const qPrefix = data.slice(0, underscoreIdx);
-  const callbackSuffix = data.slice(underscoreIdx + 1);
 
-  // Validate that the pressed button belongs to the current step
-  const expectedPrefix = STEP_PREFIX[state.step];
-  if (qPrefix !== expectedPrefix) {
-    return; // silently ignore stale button
+  // Atrás / review-screen buttons
+  if (await handleNavigation(data, state, flow, chatId, cq.from, env, ctx)) {
+    return;
   }
 
-  // Look up canonical answer value
-  const prefixMap = CALLBACK_VALUE_MAP[qPrefix];
-  if (!prefixMap) {
-    console.error("No CALLBACK_VALUE_MAP entry for prefix:", qPrefix);
+  // Find the current question in the flow this session is pinned to
+  const stepIndex = flow.questions.findIndex((q) => q.id === state.step);
+  if (stepIndex === -1) {
+    console.error("Unknown step in session state:", state.step, "flow version:", flow.version);
     return;
   }
-  const answerValue = prefixMap[callbackSuffix];
-  if (!answerValue) {
-    console.error("Unknown callback suffix:", callbackSuffix, "for prefix:", qPrefix);
+  const question = flow.questions[stepIndex];
+
+  // Multi-select buttons toggle a tick until "Listo" is pressed
+  if (question.input === "multi_select") {
+    await handleMultiSelect(data, state, flow, stepIndex, chatId, cq.from, env, ctx);
     return;
   }
 
-  // Find the current question
-  const stepIndex = STEP_ORDER.indexOf(state.step);
-  if (stepIndex === -1) {
-    console.error("Unknown step in session state:", state.step);
-    return;
+  // Validate that the pressed button belongs to the current step
+  const option = question.options?.find((opt) => opt.data === data);
+  if (!option) {
+    return; // silently ignore stale button
   }
-  const question = QUESTIONS[stepIndex];
 
-  // Record the answer
-  (state.answers as Record<string, unknown>)[question.key] = answerValue;
+  await applyAnswer(state, flow, stepIndex, option.value, chatId, cq.from, env, ctx);
+}
 
-  // Determine minimum weekly hours threshold
-  const minWeeklyHours = parseInt(env.MIN_WEEKLY_HOURS ?? "15", 10) || 15;
+// ---------------------------------------------------------------------------
+// Dry-run simulation — scripted conversations against isolated state, with
+// Telegram and Make calls recorded instead of sent
+// ---------------------------------------------------------------------------
 
-  // Check fail condition
-  const failReason = checkFailCondition(state.step, answerValue, minWeeklyHours);
-  if (failReason) {
-    await reportResult("fail", failReason, state, chatId, cq.from, env);
-    return;
+function recordSimulatedCall(method: string, body: Record<string, unknown>, capture: SimulationCapture): TelegramResult {
+  const call: SimulatedCall = { method, ...body };
+  if (method.startsWith("send")) {
+    call.message_id = capture.next_message_id++;
   }
+  capture.calls.push(call);
+  return { ok: true, result: call.message_id === undefined ? true : { message_id: call.message_id } };
+}
 
-  // Advance to the next step
-  const nextStepIndex = stepIndex + 1;
-  if (nextStepIndex >= STEP_ORDER.length) {
-    // All questions answered — PASS
-    await reportResult("pass", "", state, chatId, cq.from, env);
-    return;
+function recordSimulatedResult(payload: MakePayload, capture: SimulationCapture): Response {
+  capture.results.push(payload);
+  return new Response(null, { status: 200 });
+}
+
+/**
+ * KV for a simulation run. Writes stay in memory for the length of the run;
+ * applicant records and flows are read through from BOT_KV so real tokens and
+ * published flows and campaigns can be used.
+ */
+function simulationKv(real: BotKV): BotKV {
+  const local = new Map<string, { value: string; metadata?: unknown }>();
+  const deleted = new Set<string>();
+  const readsThrough = (key: string) =>
+    key.startsWith(APPLICANT_KEY_PREFIX) || key.startsWith(FLOW_KEY_PREFIX) || key.startsWith(CAMPAIGN_KEY_PREFIX);
+
+  return {
+    async get(key: string): Promise<string | null> {
+      const entry = local.get(key);
+      if (entry) return entry.value;
+      if (deleted.has(key) || !readsThrough(key)) return null;
+      return real.get(key);
+    },
+    async put(key: string, value: string, options?: KVNamespacePutOptions): Promise<void> {
+      local.set(key, { value, metadata: options?.metadata });
+      deleted.delete(key);
+    },
+    async delete(key: string): Promise<void> {
+      local.delete(key);
+      deleted.add(key);
+    },
+    async list<Metadata = unknown>(options?: KVNamespaceListOptions): Promise<KVNamespaceListResult<Metadata>> {
+      const prefix = options?.prefix ?? "";
+      const keys = [...local]
+        .filter(([name]) => name.startsWith(prefix))
+        .map(([name, entry]) => ({ name, metadata: entry.metadata as Metadata | undefined }));
+      return { keys, list_complete: true, cacheStatus: null };
+    },
+  };
+}
+
+function isSimulationInput(value: unknown): value is SimulationInput {
+  if (typeof value === "string") return true;
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+  const input = value as Record<string, unknown>;
+  if ("button" in input) {
+    return typeof input.button === "string" && (input.message_id === undefined || Number.isSafeInteger(input.message_id));
   }
+  if ("text" in input) return typeof input.text === "string";
+  if ("contact" in input) return typeof input.contact === "string";
+  return (Object.keys(MEDIA_KIND_LABELS) as MediaKind[]).some(
+    (kind) => typeof input[kind] === "number" && (input[kind] as number) >= 0,
+  );
+}
 
-  state.step = STEP_ORDER[nextStepIndex];
-  await saveSession(chatId, state, env);
-  await sendQuestion(chatId, nextStepIndex, env);
+function hasCallbackData(replyMarkup: unknown, data: string): boolean {
+  const rows = (replyMarkup as { inline_keyboard?: { callback_data?: string }[][] } | undefined)?.inline_keyboard;
+  return !!rows?.some((row) => row.some((button) => button.callback_data === data));
+}
+
+/**
+ * The newest message in the chat whose current inline keyboard has the given
+ * callback data, replaying the recorded sends and edits.
+ */
+function simulatedKeyboardMessage(data: string, chatId: number, capture: SimulationCapture): number | undefined {
+  const keyboards = new Map<number, unknown>();
+  for (const call of capture.calls) {
+    if (call.chat_id !== chatId || call.message_id === undefined) continue;
+    if (call.method === "sendMessage" || call.method === "editMessageText" || call.method === "editMessageReplyMarkup") {
+      keyboards.set(call.message_id, call.reply_markup);
+    }
+  }
+  let found: number | undefined;
+  for (const [messageId, replyMarkup] of keyboards) {
+    if (hasCallbackData(replyMarkup, data) && (found === undefined || messageId > found)) {
+      found = messageId;
+    }
+  }
+  return found;
+}
+
+/** Builds the update Telegram would deliver for a scripted input. */
+function simulatedUpdate(
+  input: SimulationInput,
+  chatId: number,
+  from: TelegramUser,
+  capture: SimulationCapture,
+): TelegramUpdate {
+  const messageId = capture.next_message_id++;
+  const chat = { id: chatId, type: "private" };
+
+  let button: string | undefined;
+  let target: number | undefined;
+  if (typeof input === "string") {
+    target = simulatedKeyboardMessage(input, chatId, capture);
+    if (target !== undefined) button = input;
+  } else if ("button" in input) {
+    button = input.button;
+    target = input.message_id ?? simulatedKeyboardMessage(input.button, chatId, capture);
+  }
+  if (button !== undefined) {
+    return {
+      update_id: messageId,
+      callback_query: {
+        id: String(messageId),
+        from,
+        message: target === undefined ? undefined : { message_id: target, chat },
+        data: button,
+      },
+    };
+  }
+
+  const message: TelegramMessage = { message_id: messageId, from, chat };
+  if (typeof input === "string") {
+    message.text = input;
+  } else if ("text" in input) {
+    message.text = input.text;
+  } else if ("contact" in input) {
+    message.contact = { phone_number: input.contact, first_name: from.first_name, user_id: from.id };
+  } else {
+    for (const kind of Object.keys(MEDIA_KIND_LABELS) as MediaKind[]) {
+      const duration = (input as Partial<Record<MediaKind, number>>)[kind];
+      if (duration !== undefined) {
+        const fileId = `simulated-${kind}-${messageId}`;
+        message[kind] = { file_id: fileId, file_unique_id: fileId, duration };
+      }
+    }
+  }
+  return { update_id: messageId, message };
+}
+
+/**
+ * POST /admin/simulate — runs scripted inputs through handleMessage and
+ * handleCallbackQuery as if a candidate sent them, and returns everything the
+ * bot would have sent plus the results it would have posted to Make.
+ * Sessions, applicant updates and outbox entries stay in memory; interview
+ * booking, funnel metrics and rate limiting are off. Sessions use the KV code
+ * path, not the ChatSession Durable Object production runs on, so the DO's
+ * step checks and transactions aren't exercised. Body:
+ *   inputs     — e.g. ["/start simulation", "Q1_YES", "24", {"voice": 42}]
+ *   applicant  — optional intake fields, seeded under applicant_token
+ *                (defaults to "simulation"); otherwise real records are read
+ *   flow       — optional unpublished flow definition to run instead of the active one
+ *   chat_id    — optional
+ */
+async function handleSimulate(request: Request, env: Env): Promise<Response> {
+  const body = await readJsonObject(request);
+  if (!body) {
+    return jsonResponse({ error: "invalid_json" }, 400);
+  }
+
+  const inputs = body.inputs;
+  if (!Array.isArray(inputs) || inputs.length === 0 || inputs.length > SIMULATION_MAX_INPUTS) {
+    return jsonResponse({ error: `inputs must be an array of 1–${SIMULATION_MAX_INPUTS} inputs` }, 400);
+  }
+  const badInput = inputs.findIndex((input) => !isSimulationInput(input));
+  if (badInput !== -1) {
+    return jsonResponse(
+      { error: `inputs[${badInput}] must be a string or an object with text, button, contact, voice, video_note or video` },
+      400,
+    );
+  }
+  const chatId = body.chat_id ?? SIMULATION_CHAT_ID;
+  if (typeof chatId !== "number" || !Number.isSafeInteger(chatId)) {
+    return jsonResponse({ error: "chat_id must be an integer" }, 400);
+  }
+
+  const capture: SimulationCapture = { calls: [], results: [], next_message_id: 1 };
+  const simEnv: Env = {
+    ...env,
+    BOT_KV: simulationKv(env.BOT_KV),
+    CHAT_SESSIONS: undefined,
+    INTERVIEW_CALENDAR: undefined, // would book real slots
+    FUNNEL_METRICS: undefined,
+    RECRUITER_POOL: undefined, // would count toward recruiters' capacity
+    REQUIRE_SIGNED_LINKS: undefined, // so "/start <token>" works without minting a link
+    SUPPORT_CHAT_ID: undefined, // no one would answer in a real topic
+    SIMULATION: capture,
+  };
+
+  if (body.flow !== undefined) {
+    if (typeof body.flow !== "object" || body.flow === null || Array.isArray(body.flow)) {
+      return jsonResponse({ error: "flow must be a flow definition object" }, 400);
+    }
+    const flow = { ...(body.flow as FlowDefinition), version: SIMULATION_FLOW_VERSION };
+    const problem = validateFlow(flow);
+    if (problem) {
+      return jsonResponse({ error: `flow is invalid: ${problem}` }, 400);
+    }
+    await simEnv.BOT_KV.put(`${FLOW_KEY_PREFIX}${SIMULATION_FLOW_VERSION}`, JSON.stringify(flow));
+    await simEnv.BOT_KV.put(FLOW_ACTIVE_KEY, SIMULATION_FLOW_VERSION);
+  }
+
+  const from: TelegramUser = { id: chatId, first_name: "Simulación" };
+  if (body.applicant !== undefined) {
+    const fields = (typeof body.applicant === "object" && body.applicant !== null ? body.applicant : {}) as Record<
+      string,
+      unknown
+    >;
+    const firstName = optionalString(fields.first_name);
+    if (!firstName) {
+      return jsonResponse({ error: "applicant.first_name is required" }, 400);
+    }
+    await saveApplicant(
+      {
+        applicant_token: optionalString(fields.applicant_token) ?? SIMULATION_APPLICANT_TOKEN,
+        first_name: firstName,
+        email: optionalString(fields.email),
+        phone: optionalString(fields.phone),
+        campaign: optionalString(fields.campaign),
+        timezone: optionalString(fields.timezone),
+        status: "pending",
+        created_at: new Date().toISOString(),
+      },
+      simEnv,
+    );
+    from.first_name = firstName;
+  }
+
+  const pending: Promise<unknown>[] = [];
+  const simCtx: BackgroundTasks = {
+    waitUntil: (promise: Promise<unknown>) => void pending.push(promise),
+  };
+
+  const transcript: SimulationStep[] = [];
+  for (const input of inputs as SimulationInput[]) {
+    const firstCall = capture.calls.length;
+    const update = simulatedUpdate(input, chatId, from, capture);
+    const step: SimulationStep = { input, as: update.callback_query ? "button" : "message", calls: [] };
+    try {
+      if (update.callback_query) {
+        await handleCallbackQuery(update.callback_query, simEnv, simCtx);
+      } else if (update.message) {
+        await handleMessage(chatId, from, update.message, simEnv, simCtx);
+      }
+    } catch (e) {
+      step.error = String(e);
+    }
+    // Background work (Make delivery, the staff card) lands before the next input
+    while (pending.length) {
+      await Promise.allSettled(pending.splice(0));
+    }
+    step.calls = capture.calls.slice(firstCall);
+    transcript.push(step);
+  }
+
+  return jsonResponse({
+    chat_id: chatId,
+    transcript,
+    results: capture.results,
+    session: await loadSession(chatId, simEnv), // null once the screening completed
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Request authentication
+// ---------------------------------------------------------------------------
+
+/** Constant-time string comparison for secrets. */
+function timingSafeEqual(a: string, b: string): boolean {
+  const enc = new TextEncoder();
+  const aBytes = enc.encode(a);
+  const bBytes = enc.encode(b);
+  let diff = aBytes.length ^ bBytes.length;
+  for (let i = 0; i < aBytes.length; i++) {
+    diff |= aBytes[i] ^ (bBytes[i % bBytes.length] ?? 0);
+  }
+  return diff === 0;
+}
+
+function isTelegramAuthorized(request: Request, env: Env): boolean {
+  if (!env.TELEGRAM_WEBHOOK_SECRET) {
+    console.error("TELEGRAM_WEBHOOK_SECRET is not configured — rejecting webhook request");
+    return false;
+  }
+  const header = request.headers.get("X-Telegram-Bot-Api-Secret-Token") ?? "";
+  return timingSafeEqual(header, env.TELEGRAM_WEBHOOK_SECRET);
+}
+
+function isAdminAuthorized(request: Request, env: Env): boolean {
+  if (!env.ADMIN_TOKEN) {
+    console.error("ADMIN_TOKEN is not configured — rejecting admin request");
+    return false;
+  }
+  const header = request.headers.get("Authorization") ?? "";
+  const match = /^Bearer\s+(.+)$/.exec(header);
+  return !!match && timingSafeEqual(match[1], env.ADMIN_TOKEN);
 }
 
 // ---------------------------------------------------------------------------
 // Main webhook handler
 // ---------------------------------------------------------------------------
 
-async function handleWebhook(request: Request, env: Env): Promise<void> {
+/**
+ * Parses and claims the update, then handles it in the background so
+ * Telegram gets its 200 right away, even while a rate-limited Bot API call
+ * waits out its retry_after (see callTelegram).
+ */
+async function handleWebhook(request: Request, env: Env, ctx: BackgroundTasks): Promise<void> {
   let update: TelegramUpdate;
   try {
     update = (await request.json()) as TelegramUpdate;
@@ -771,31 +6069,126 @@ async function handleWebhook(request: Request, env: Env): Promise<void> {
     return;
   }
 
+  // Claimed before handling: a redelivery must never record an answer or
+  // send a question twice, even if the first attempt failed part-way
+  const chatId = update.callback_query?.from.id ?? update.message?.chat.id;
+  if (
+    typeof update.update_id !== "number" ||
+    chatId === undefined ||
+    !(await claimUpdate(chatId, update.update_id, env))
+  ) {
+    return;
+  }
+
+  ctx.waitUntil(handleUpdate(update, env, ctx));
+}
+
+async function handleUpdate(update: TelegramUpdate, env: Env, ctx: BackgroundTasks): Promise<void> {
   if (update.callback_query) {
     const cq = update.callback_query;
     try {
-      await handleCallbackQuery(cq, env);
+      await handleCallbackQuery(cq, env, ctx);
     } catch (e) {
       console.error(`Error handling callback_query from chatId ${cq.from.id}:`, e);
     }
   } else if (update.message) {
     const msg = update.message;
     const chatId = msg.chat.id;
+    // Staff answering candidates in the support forum
+    if (chatId === supportChatId(env)) {
+      try {
+        await handleSupportMessage(msg, env);
+      } catch (e) {
+        console.error("Error handling support group message:", e);
+      }
+      return;
+    }
+    // The screening only runs in private chats; ignore the staff group
+    if (msg.chat.type && msg.chat.type !== "private") {
+      return;
+    }
     const from: TelegramUser = msg.from ?? { id: chatId, first_name: "there" };
     try {
-      await handleMessage(chatId, from, msg.text, env);
+      await handleMessage(chatId, from, msg, env, ctx);
     } catch (e) {
       console.error(`Error handling message for chatId ${chatId}:`, e);
     }
   }
 }
 
+// ---------------------------------------------------------------------------
+// Admin API — bearer-token authenticated endpoints under /admin/
+// ---------------------------------------------------------------------------
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function handleAdmin(request: Request, url: URL, env: Env): Promise<Response> {
+  if (!isAdminAuthorized(request, env)) {
+    return jsonResponse({ error: "unauthorized" }, 401);
+  }
+
+  // POST /admin/start-links — mint a signed, expiring start link
+  if (request.method === "POST" && url.pathname === "/admin/start-links") {
+    return handleMintStartLink(request, env);
+  }
+
+  // /admin/recruiters — recruiter pool for PASS handoffs
+  if (url.pathname === "/admin/recruiters" || url.pathname.startsWith("/admin/recruiters/")) {
+    return handleAdminRecruiters(request, url, env);
+  }
+
+  // /admin/slots — interview availability
+  if (url.pathname === "/admin/slots" || url.pathname.startsWith("/admin/slots/")) {
+    return handleAdminSlots(request, url, env);
+  }
+
+  // GET /admin/results(.csv) — stored results, filtered by day, result, campaign or token
+  if (request.method === "GET" && (url.pathname === "/admin/results" || url.pathname === "/admin/results.csv")) {
+    return handleAdminResults(url, env);
+  }
+
+  // GET /admin/metrics — funnel counters per day and campaign (JSON or CSV)
+  if (request.method === "GET" && url.pathname === "/admin/metrics") {
+    return handleAdminMetrics(url, env);
+  }
+
+  // POST /admin/simulate — dry-run scripted inputs without Telegram or Make
+  if (request.method === "POST" && url.pathname === "/admin/simulate") {
+    return handleSimulate(request, env);
+  }
+
+  // GET /admin/dead-letters — list results that exhausted their retries
+  if (request.method === "GET" && url.pathname === "/admin/dead-letters") {
+    const entries = await listDeadLetters(env);
+    return jsonResponse({ count: entries.length, entries });
+  }
+
+  // POST /admin/dead-letters/<id>/replay — re-queue and retry one result
+  const replayMatch = /^\/admin\/dead-letters\/([^/]+)\/replay$/.exec(url.pathname);
+  if (request.method === "POST" && replayMatch) {
+    const id = decodeURIComponent(replayMatch[1]);
+    const delivered = await replayDeadLetter(id, env);
+    if (delivered === null) {
+      return jsonResponse({ error: "not_found" }, 404);
+    }
+    // When delivery fails again the entry stays in the outbox for the cron retries
+    return jsonResponse({ id, delivered, queued: !delivered });
+  }
+
+  return jsonResponse({ error: "not_found" }, 404);
+}
+
 // ---------------------------------------------------------------------------
 // Cloudflare Worker entry point
 // ---------------------------------------------------------------------------
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
 
     // Health check endpoint
@@ -805,8 +6198,12 @@ export default {
 
     // Telegram webhook endpoint
     if (request.method === "POST" && url.pathname === "/telegram/webhook") {
+      // Only Telegram knows the secret_token registered with setWebhook
+      if (!isTelegramAuthorized(request, env)) {
+        return new Response("Unauthorized", { status: 401 });
+      }
       try {
-        await handleWebhook(request, env);
+        await handleWebhook(request, env, ctx);
       } catch (e) {
         // Never propagate errors — Telegram expects HTTP 200 always
         console.error("Unhandled error in handleWebhook:", e);
@@ -814,6 +6211,87 @@ export default {
       return new Response("ok", { status: 200 });
     }
 
+    // Applicant intake — called by Make when a new lead arrives
+    if (request.method === "POST" && url.pathname === "/applicants") {
+      if (!isAdminAuthorized(request, env)) {
+        return jsonResponse({ error: "unauthorized" }, 401);
+      }
+      try {
+        return await handleCreateApplicant(request, env);
+      } catch (e) {
+        console.error("Unhandled error in handleCreateApplicant:", e);
+        return jsonResponse({ error: "internal_error" }, 500);
+      }
+    }
+
+    // Outbound notifications — called by Make to message an applicant
+    if (request.method === "POST" && url.pathname === "/notify") {
+      if (!isAdminAuthorized(request, env)) {
+        return jsonResponse({ error: "unauthorized" }, 401);
+      }
+      try {
+        return await handleNotify(request, env);
+      } catch (e) {
+        console.error("Unhandled error in handleNotify:", e);
+        return jsonResponse({ error: "internal_error" }, 500);
+      }
+    }
+
+    // Authenticated admin endpoints
+    if (url.pathname.startsWith("/admin/")) {
+      try {
+        return await handleAdmin(request, url, env);
+      } catch (e) {
+        console.error("Unhandled error in handleAdmin:", e);
+        return jsonResponse({ error: "internal_error" }, 500);
+      }
+    }
+
     return new Response("Not Found", { status: 404 });
   },
+
+  // Cron Triggers — the hourly trigger sweeps idle sessions, the daily one
+  // starts a purge of data past the retention period, the other one retries
+  // pending Make.com deliveries and rate-limited Telegram calls and continues
+  // an unfinished sweep or purge
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    if (controller.cron === IDLE_SWEEP_CRON) {
+      try {
+        await processIdleSessions(env, ctx, true);
+      } catch (e) {
+        console.error("Unhandled error in processIdleSessions:", e);
+      }
+      return;
+    }
+
+    if (controller.cron === RETENTION_PURGE_CRON) {
+      try {
+        await purgeExpiredData(env, true);
+      } catch (e) {
+        console.error("Unhandled error in purgeExpiredData:", e);
+      }
+      return;
+    }
+
+    try {
+      await processOutbox(env);
+    } catch (e) {
+      console.error("Unhandled error in processOutbox:", e);
+    }
+    try {
+      await processTelegramRetries(env);
+    } catch (e) {
+      console.error("Unhandled error in processTelegramRetries:", e);
+    }
+    try {
+      await processIdleSessions(env, ctx, false);
+    } catch (e) {
+      console.error("Unhandled error in processIdleSessions:", e);
+    }
+    try {
+      await purgeExpiredData(env, false);
+    } catch (e) {
+      console.error("Unhandled error in purgeExpiredData:", e);
+    }
+  },
 } satisfies ExportedHandler<Env>;